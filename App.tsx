@@ -1,26 +1,43 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AppStep, UploadedVideo, AudioTrack, ProcessedResult } from './types';
+import { AppStep, UploadedVideo, AudioTrack, ProcessedResult, ProjectSnapshot, ProjectSummary, RenderJobSpec, RenderQueueJob } from './types';
+import { DEFAULT_FADE_IN_SEC, DEFAULT_FADE_OUT_SEC, DEFAULT_FILL_SETTINGS, DEFAULT_LOUDNESS_TARGET, DEFAULT_MIN_VIDEO_DURATION_SEC, DEFAULT_MIX_SETTINGS, DEFAULT_FILENAME_TEMPLATE, DEFAULT_OUTPUT_PROFILE_ID, OUTPUT_PROFILES, PROJECT_AUTOSAVE_DELAY_MS, getOutputProfile } from './constants';
 import { LoginScreen } from './components/LoginScreen';
 import { VideoUploader } from './components/VideoUploader';
+import { VideoTrimmer } from './components/VideoTrimmer';
 import { AudioTrackItem } from './components/AudioTrackItem';
-import { ProcessingModal } from './components/ProcessingModal';
+import { RenderQueuePanel } from './components/RenderQueuePanel';
 import { ResultVideoPlayer } from './components/ResultVideoPlayer';
+import { VideoPreview } from './components/VideoPreview';
+import { OutputProfileSelector } from './components/OutputProfileSelector';
+import { LoudnessTargetSelect } from './components/LoudnessTargetSelect';
+import { ResultGroupCard } from './components/ResultGroupCard';
+import { PairMatrix } from './components/PairMatrix';
+import { ProjectList } from './components/ProjectList';
+import { MediaRelinkDialog } from './components/MediaRelinkDialog';
+import { releaseDecodedAudio } from './services/audioDecoder';
+import { releaseTrackWaveform } from './services/waveform';
+import { releaseTrackBeats } from './services/beatDetection';
+import { getTrackSegments, releaseTrackSegments } from './services/segmentSuggestion';
+import { releaseTrackLoudness } from './services/loudness';
+import { arrangeTrack } from './services/audioArrangement';
+import { isOnKeyframe, trimmedDuration } from './services/videoTrim';
+import { canCopyVideoStream, hasAudioStream, outputFrameRate, pixelAspectRatio } from './services/mediaProbe';
+import { enabledPairs, getPair, pairKey, removePairsOf, RenderPairs, trackForPair, updatePair } from './services/renderPairs';
+import { deleteProject, duplicateProject, getStorageEstimate, listProjects, loadProject, ProjectQuotaError, renameProject, requestPersistentStorage, saveProject } from './services/projectStore';
+import { exportProjectBundle, exportProjectManifest, ImportedProject, importedSnapshot, missingMedia, ProjectFileError, readProjectFile, relinkMedia } from './services/projectFile';
+import { downloadBlob } from './services/download';
+import { FILENAME_TOKENS, resultFilenames, sanitizeFilename } from './services/outputNames';
+import { createZip } from './services/zip';
+import { canSaveToFolder, canShareFiles, saveToFolder, shareFiles } from './services/deviceSave';
+import { AuthSession, clearSession, getAuthProvider, loadSession, storeSession } from './services/auth';
+import { RenderJobError, RenderProgressEvent } from './services/renderEngine';
+import { estimateRenderProgress } from './services/ffmpegProgress';
+import { planJobMemory } from './services/memoryBudget';
+import { holdResultFile, pruneResultFiles, releaseResultFile } from './services/resultFiles';
+import { cancelQueuedJobs, countJobs, createQueueJob, nextQueuedJob, removeQueueJob, removeQueueJobsOf, retryQueueJob, updateQueueJob } from './services/renderQueue';
+import { RenderCancelledError, RenderWorkerClient } from './services/renderClient';
 
-// Helper to fetch file as Uint8Array for FFmpeg 0.10.1
-const getFileData = async (file: File): Promise<Uint8Array> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      if (reader.result instanceof ArrayBuffer) {
-        resolve(new Uint8Array(reader.result));
-      } else {
-        reject(new Error("Failed to read file"));
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsArrayBuffer(file);
-  });
-};
+const MISSING_SOURCES_ERROR = "O vídeo, a faixa ou o formato deste item não está mais no projeto.";
 
 // Icons
 const PlusIcon = () => (
@@ -35,40 +52,328 @@ const RestartIcon = () => (
     </svg>
 );
 
-const DownloadIcon = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-    </svg>
-);
-
 function App() {
-  const [step, setStep] = useState<AppStep>(AppStep.LOGIN);
-  const [uploadedVideo, setUploadedVideo] = useState<UploadedVideo | null>(null);
+  const authProvider = getAuthProvider();
+  // Set only from the provider (login or session check), never from storage
+  const [session, setSession] = useState<AuthSession | null>(null);
+  // Who was logged in last time, shown while the backend confirms the session
+  const [sessionHint] = useState<AuthSession | null>(loadSession);
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [currentStep, setStep] = useState<AppStep>(AppStep.LOGIN);
+  // Every screen but the login needs a live session
+  const step = session ? currentStep : AppStep.LOGIN;
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState('');
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<ImportedProject | null>(null);
+  const [relinking, setRelinking] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [videos, setVideos] = useState<UploadedVideo[]>([]);
+  const [activeVideoId, setActiveVideoId] = useState<string | null>(null);
+  const [pairs, setPairs] = useState<RenderPairs>({});
   const [audioTracks, setAudioTracks] = useState<AudioTrack[]>([]);
   const [results, setResults] = useState<ProcessedResult[]>([]);
-  const [progress, setProgress] = useState(0);
+  const [queue, setQueue] = useState<RenderQueueJob[]>([]);
+  const [rendering, setRendering] = useState(false);
+  const [progress, setProgress] = useState<RenderProgressEvent | null>(null);
   const [progressMessage, setProgressMessage] = useState("");
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  const ffmpegRef = useRef<any>(null);
+  const [outputProfileIds, setOutputProfileIds] = useState<string[]>([DEFAULT_OUTPUT_PROFILE_ID]);
+  const [previewProfileId, setPreviewProfileId] = useState(DEFAULT_OUTPUT_PROFILE_ID);
+  const [minVideoDuration, setMinVideoDuration] = useState<number | null>(DEFAULT_MIN_VIDEO_DURATION_SEC);
+  const [loudnessTarget, setLoudnessTarget] = useState<number | null>(DEFAULT_LOUDNESS_TARGET);
+  const [filenameTemplate, setFilenameTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+  const [zipProgress, setZipProgress] = useState<string | null>(null);
+  const [saveProgress, setSaveProgress] = useState<string | null>(null);
+  const [saveNotice, setSaveNotice] = useState<string | null>(null);
+  const outputProfiles = OUTPUT_PROFILES.filter(p => outputProfileIds.includes(p.id));
+  const previewProfile = getOutputProfile(outputProfileIds.includes(previewProfileId) ? previewProfileId : outputProfileIds[0]);
+  // The video being previewed, trimmed and used to edit the tracks
+  const activeVideo = videos.find(v => v.id === activeVideoId) ?? null;
+  const selectedPairs = enabledPairs(videos, audioTracks, pairs);
+  const renderCount = selectedPairs.length * outputProfiles.length;
+  // Everything downstream works on the trimmed part of the video
+  const videoDuration = activeVideo ? trimmedDuration(activeVideo) : 0;
+  const originalAudioKept = audioTracks.some(t => t.mix.originalGain > 0);
+  const outputFilenames = resultFilenames(results, filenameTemplate);
+  const renderClientRef = useRef<RenderWorkerClient | null>(null);
+  // The queue runner reads the queue between renders, so the ref is the
+  // source of truth and the state mirrors it for rendering
+  const queueRef = useRef<RenderQueueJob[]>([]);
+  const queueRunningRef = useRef(false);
+  // Same for the project the jobs come from: the runner started with one
+  // render's closure but must see edits made while it waits on the worker
+  const projectRef = useRef({ videos, audioTracks, pairs, loudnessTarget });
+  projectRef.current = { videos, audioTracks, pairs, loudnessTarget };
+
+  const updateQueue = (update: (queue: RenderQueueJob[]) => RenderQueueJob[]) => {
+    queueRef.current = update(queueRef.current);
+    setQueue(queueRef.current);
+  };
 
   // Initial check to ensure environment is sane
   useEffect(() => {
     console.log("AudioVideo Merger App Initialized");
+    pruneResultFiles().catch(err => console.warn("Could not prune old results:", err));
+  }, []);
+
+  const getSnapshot = (): ProjectSnapshot => ({
+    videos,
+    activeVideoId,
+    tracks: audioTracks,
+    pairs,
+    results,
+    queue,
+    settings: { outputProfileIds, previewProfileId, minVideoDuration, loudnessTarget, filenameTemplate },
+    step
+  });
+
+  const persistProject = (): Promise<void> => {
+    if (!projectId) return Promise.resolve();
+    return saveProject(projectId, projectName, getSnapshot())
+      .then(() => setProjectError(null))
+      .catch(err => {
+        console.error("Project save failed:", err);
+        setProjectError(err instanceof ProjectQuotaError ? err.message : "Não foi possível salvar o projeto neste navegador.");
+      });
+  };
+
+  // Autosave: a reload or a crashed tab reopens the project from the list
+  useEffect(() => {
+    if (!projectId || step === AppStep.LOGIN || step === AppStep.PROJECTS) return;
+    const timer = window.setTimeout(persistProject, PROJECT_AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [projectId, projectName, videos, activeVideoId, audioTracks, pairs, results, queue, outputProfileIds, previewProfileId, minVideoDuration, loudnessTarget, filenameTemplate, step]);
+
+  const refreshProjects = () => {
+    Promise.all([listProjects(), getStorageEstimate()])
+      .then(([list, estimate]) => {
+        setProjects(list);
+        setStorageEstimate(estimate);
+      })
+      .catch(err => {
+        console.error("Project list failed:", err);
+        setProjects([]);
+        setProjectError("Não foi possível ler os projetos salvos neste navegador.");
+      });
+  };
+
+  // A session the backend still accepts skips the login and goes straight to the projects
+  useEffect(() => {
+    authProvider.checkSession()
+      .then(live => {
+        if (!live) {
+          clearSession();
+          return;
+        }
+        storeSession(live);
+        setSession(live);
+        setStep(AppStep.PROJECTS);
+        refreshProjects();
+      })
+      .catch(err => console.error("Session check failed:", err))
+      .finally(() => setSessionChecked(true));
   }, []);
 
-  const handleLoginSuccess = () => {
-    setStep(AppStep.UPLOAD_VIDEO);
+  const handleLoginSuccess = (newSession: AuthSession) => {
+    storeSession(newSession);
+    setSession(newSession);
+    setStep(AppStep.PROJECTS);
+    refreshProjects();
+  };
+
+  const logout = async () => {
+    await persistProject();
+    clearProject();
+    if (session) authProvider.logout().catch(err => console.error("Logout failed:", err));
+    clearSession();
+    setSession(null);
+    setProjects(null);
+    setStep(AppStep.LOGIN);
+  };
+  // The expiry timer outlives renders, it must not log out with stale project state
+  const logoutRef = useRef(logout);
+  logoutRef.current = logout;
+
+  // Log out when the session expires. Timers can't wait longer than ~24 days,
+  // so long sessions re-arm the timer instead of firing early.
+  useEffect(() => {
+    if (!session) return;
+    const timer = window.setTimeout(() => {
+      if (Date.now() >= session.expiresAt) logoutRef.current();
+      else setSession({ ...session });
+    }, Math.min(0x7fffffff, Math.max(0, session.expiresAt - Date.now())));
+    return () => window.clearTimeout(timer);
+  }, [session]);
+
+  const newProjectId = () => Math.random().toString(36).substr(2, 9);
+
+  const applySnapshot = (id: string, name: string, snapshot: ProjectSnapshot) => {
+    const profileIds = snapshot.settings.outputProfileIds.filter(p => OUTPUT_PROFILES.some(profile => profile.id === p));
+    setProjectId(id);
+    setProjectName(name);
+    setVideos(snapshot.videos);
+    setActiveVideoId(snapshot.activeVideoId);
+    setAudioTracks(snapshot.tracks);
+    setPairs(snapshot.pairs);
+    setResults(snapshot.results);
+    updateQueue(() => snapshot.queue);
+    setOutputProfileIds(profileIds.length > 0 ? profileIds : [DEFAULT_OUTPUT_PROFILE_ID]);
+    setPreviewProfileId(snapshot.settings.previewProfileId);
+    setMinVideoDuration(snapshot.settings.minVideoDuration);
+    setLoudnessTarget(snapshot.settings.loudnessTarget);
+    setFilenameTemplate(snapshot.settings.filenameTemplate);
+    setErrorMsg(null);
+
+    if (snapshot.videos.length === 0) {
+      setStep(AppStep.UPLOAD_VIDEO);
+    } else if (snapshot.step === AppStep.PROCESSING && snapshot.queue.length > 0) {
+      // Renders don't survive a reload, the queue does and waits to be resumed
+      setStep(AppStep.PROCESSING);
+    } else if (snapshot.step === AppStep.PROCESSING) {
+      setErrorMsg("A renderização foi interrompida antes de terminar. Gere os vídeos novamente.");
+      setStep(AppStep.CONFIGURE_AUDIO);
+    } else if (snapshot.step === AppStep.RESULTS && snapshot.results.length > 0) {
+      setStep(AppStep.RESULTS);
+    } else if (snapshot.step === AppStep.TRIM_VIDEO) {
+      setStep(AppStep.TRIM_VIDEO);
+    } else {
+      setStep(AppStep.CONFIGURE_AUDIO);
+    }
+  };
+
+  const openProject = (id: string) => {
+    loadProject(id)
+      .then(({ name, snapshot }) => applySnapshot(id, name, snapshot))
+      .catch(err => {
+        console.error("Project load failed:", err);
+        setProjectError("Não foi possível abrir o projeto.");
+      });
+  };
+
+  const openImportedProject = (imported: ImportedProject) => {
+    setPendingImport(null);
+    importedSnapshot(imported)
+      .then(snapshot => {
+        applySnapshot(newProjectId(), imported.manifest.name, snapshot);
+        requestPersistentStorage();
+      })
+      .catch(err => {
+        console.error("Project import failed:", err);
+        setProjectError("Não foi possível importar o projeto.");
+      });
+  };
+
+  const handleImportFile = (file: File) => {
+    setProjectError(null);
+    readProjectFile(file)
+      .then(imported => {
+        // Bundles carry their media; manifests alone ask for the files first
+        if (missingMedia(imported).length === 0) openImportedProject(imported);
+        else setPendingImport(imported);
+      })
+      .catch(err => {
+        console.error("Project import failed:", err);
+        setProjectError(err instanceof ProjectFileError ? err.message : "Não foi possível ler o arquivo de projeto.");
+      });
+  };
+
+  const handleRelinkFiles = (files: File[]) => {
+    if (!pendingImport) return;
+    setRelinking(true);
+    relinkMedia(pendingImport, files)
+      .then(setPendingImport)
+      .catch(err => console.error("Media relink failed:", err))
+      .finally(() => setRelinking(false));
+  };
+
+  const exportProject = (withMedia: boolean) => {
+    const snapshot = getSnapshot();
+    const baseName = (projectName || 'projeto').replace(/[\\/:*?"<>|]/g, '_');
+    setExporting(true);
+    (withMedia ? exportProjectBundle(projectName, snapshot) : exportProjectManifest(projectName, snapshot))
+      .then(blob => downloadBlob(blob, `${baseName}.${withMedia ? 'zip' : 'json'}`))
+      .catch(err => {
+        console.error("Project export failed:", err);
+        setErrorMsg(err instanceof Error ? err.message : "Não foi possível exportar o projeto.");
+      })
+      .finally(() => setExporting(false));
+  };
+
+  const handleDuplicateProject = (project: ProjectSummary) => {
+    duplicateProject(project.id, `${project.name} (cópia)`)
+      .then(refreshProjects)
+      .catch(err => {
+        console.error("Project duplicate failed:", err);
+        setProjectError(err instanceof ProjectQuotaError ? err.message : "Não foi possível duplicar o projeto.");
+      });
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    renameProject(id, name)
+      .then(refreshProjects)
+      .catch(err => console.error("Project rename failed:", err));
+  };
+
+  const handleDeleteProject = (project: ProjectSummary) => {
+    if (!window.confirm(`Excluir o projeto "${project.name}"? Os arquivos salvos nele serão apagados deste navegador.`)) return;
+    deleteProject(project.id)
+      .then(() => {
+        setProjectError(null);
+        refreshProjects();
+      })
+      .catch(err => console.error("Project delete failed:", err));
   };
 
   const handleVideoSelected = (video: UploadedVideo) => {
-    setUploadedVideo(video);
-    setStep(AppStep.CONFIGURE_AUDIO);
+    // The project is saved from its first video on
+    if (!projectId) {
+      const id = newProjectId();
+      const name = `Projeto ${new Date().toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}`;
+      setProjectId(prev => prev ?? id);
+      setProjectName(prev => prev || name);
+      requestPersistentStorage();
+    }
+    setVideos(prev => [...prev, video]);
+    setActiveVideoId(video.id);
+    setStep(AppStep.TRIM_VIDEO);
     setErrorMsg(null);
   };
 
+  const updateActiveVideo = (updates: Partial<UploadedVideo>) => {
+    setVideos(prev => prev.map(v => v.id === activeVideoId ? { ...v, ...updates } : v));
+  };
+
+  const removeVideo = (id: string) => {
+    const video = videos.find(v => v.id === id);
+    if (video) URL.revokeObjectURL(video.url);
+    const remaining = videos.filter(v => v.id !== id);
+    setVideos(remaining);
+    setPairs(prev => removePairsOf(prev, id));
+    updateQueue(prev => removeQueueJobsOf(prev, id));
+    if (id === activeVideoId) setActiveVideoId(remaining[0]?.id ?? null);
+    if (remaining.length === 0) setStep(AppStep.UPLOAD_VIDEO);
+  };
+
+  // Jump each pair to the best scoring segment for that video's length, unless the user already moved it
+  const suggestStartTimes = (videoList: UploadedVideo[], trackList: Pick<AudioTrack, 'id' | 'file'>[]) => {
+    videoList.forEach(video => trackList.forEach(track => {
+      getTrackSegments(track.id, track.file, trimmedDuration(video))
+        .then(suggestions => {
+          if (suggestions.length === 0) return;
+          setPairs(prev => getPair(prev, video.id, track.id).startTime !== null
+            ? prev
+            : updatePair(prev, video.id, track.id, { startTime: suggestions[0].startTime }));
+        })
+        .catch(err => console.error("Segment suggestion failed:", err));
+    }));
+  };
+
   const handleAudioUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     setErrorMsg(null);
-    if (!uploadedVideo) return;
+    if (videos.length === 0) return;
 
     if (e.target.files) {
       Array.from(e.target.files).forEach((file: File) => {
@@ -77,23 +382,26 @@ function App() {
           const audio = new Audio(url);
           
           audio.onloadedmetadata = () => {
-             // CRITICAL: Audio must be at least as long as the video to allow an exact match cut.
-             if (audio.duration < uploadedVideo.duration) {
-                setErrorMsg(`O áudio "${file.name}" é muito curto (${Math.floor(audio.duration)}s). Precisa ser maior que o vídeo (${Math.floor(uploadedVideo.duration)}s).`);
-                return;
-             }
-
+             const id = Math.random().toString(36).substr(2, 9);
              setAudioTracks(prev => [
                ...prev,
                {
-                 id: Math.random().toString(36).substr(2, 9),
+                 id,
                  file,
                  name: file.name,
                  duration: audio.duration,
                  startTime: 0,
-                 url
+                 url,
+                 snapToBeat: true,
+                 mix: { ...DEFAULT_MIX_SETTINGS },
+                 fadeIn: DEFAULT_FADE_IN_SEC,
+                 fadeOut: DEFAULT_FADE_OUT_SEC,
+                 // Stitch mode starts from the whole track, split into pieces by the user
+                 fill: { ...DEFAULT_FILL_SETTINGS, segments: [{ start: 0, end: audio.duration }] }
                }
              ]);
+
+             suggestStartTimes(videos, [{ id, file }]);
           };
         }
       });
@@ -106,153 +414,315 @@ function App() {
     setAudioTracks(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
   };
 
+  // Track cards edit the track under one video: the start time belongs to that pair
+  const updateTrackUnderVideo = (videoId: string) => (id: string, updates: Partial<AudioTrack>) => {
+    const { startTime, ...trackUpdates } = updates;
+    if (startTime !== undefined) setPairs(prev => updatePair(prev, videoId, id, { startTime }));
+    if (Object.keys(trackUpdates).length > 0) updateAudioTrack(id, trackUpdates);
+  };
+
+  const setPairsEnabled = (cells: { videoId: string; trackId: string }[], enabled: boolean) => {
+    setPairs(prev => cells.reduce((next, { videoId, trackId }) => updatePair(next, videoId, trackId, { enabled }), prev));
+  };
+
+  const releaseTrackAnalysis = (id: string) => {
+    releaseDecodedAudio(id);
+    releaseTrackWaveform(id);
+    releaseTrackBeats(id);
+    releaseTrackSegments(id);
+    releaseTrackLoudness(id);
+  };
+
+  const toggleOutputProfile = (id: string) => {
+    if (outputProfileIds.includes(id)) {
+      // A project always exports at least one format
+      if (outputProfileIds.length > 1) setOutputProfileIds(outputProfileIds.filter(p => p !== id));
+    } else {
+      setOutputProfileIds([...outputProfileIds, id]);
+      setPreviewProfileId(id);
+    }
+  };
+
   const removeAudioTrack = (id: string) => {
+    releaseTrackAnalysis(id);
     setAudioTracks(prev => prev.filter(t => t.id !== id));
+    setPairs(prev => removePairsOf(prev, id));
+    updateQueue(prev => removeQueueJobsOf(prev, id));
   };
 
-  const startProcessing = async () => {
-    if (!uploadedVideo || audioTracks.length === 0) return;
-    
-    setStep(AppStep.PROCESSING);
-    setProgress(0);
-    setProgressMessage("Carregando motor de vídeo...");
-    setResults([]);
+  // Results live in OPFS files besides their object URLs
+  const releaseResults = (released: ProcessedResult[]) => released.forEach(r => {
+    URL.revokeObjectURL(r.videoUrl);
+    releaseResultFile(r.blob);
+  });
 
-    // Delay slighty to allow UI to update
-    setTimeout(async () => {
-        try {
-            // 1. Initialize FFmpeg (v0.10.1)
-            if (!ffmpegRef.current) {
-                if (!(window as any).FFmpeg) {
-                    throw new Error("Componente FFmpeg não foi carregado. Verifique sua conexão.");
-                }
-                const { createFFmpeg } = (window as any).FFmpeg;
-                // corePath not strictly needed for unpkg 0.10.1, but good practice if needed
-                ffmpegRef.current = createFFmpeg({ log: true });
-                await ffmpegRef.current.load();
-            }
-            
-            const ffmpeg = ffmpegRef.current;
-            const generatedResults: ProcessedResult[] = [];
-
-            // 2. Write Base Video
-            setProgressMessage("Lendo arquivo de vídeo...");
-            const videoFileName = 'input_video.mp4';
-            const videoData = await getFileData(uploadedVideo.file);
-            ffmpeg.FS('writeFile', videoFileName, videoData);
-
-            // 3. Process Each Track
-            for (let i = 0; i < audioTracks.length; i++) {
-                const track = audioTracks[i];
-                setProgressMessage(`Renderizando vídeo ${i + 1} de ${audioTracks.length}...`);
-                
-                const audioFileName = `input_audio_${i}.mp3`;
-                const outputFileName = `final_video_${i}.mp4`;
+  // Video and track (as it plays under that video) of a queued job from the
+  // project as it is now; null once either is gone
+  const jobSources = (job: RenderQueueJob) => {
+    const { videos, audioTracks, pairs } = projectRef.current;
+    const video = videos.find(v => v.id === job.videoId);
+    const baseTrack = audioTracks.find(t => t.id === job.trackId);
+    if (!video || !baseTrack) return null;
+    return { video, track: trackForPair(baseTrack, getPair(pairs, video.id, baseTrack.id)) };
+  };
 
-                // Write Audio
-                const audioData = await getFileData(track.file);
-                ffmpeg.FS('writeFile', audioFileName, audioData);
+  // Spec of a queued job from the project as it is now; null once its video, track or profile is gone
+  const jobSpec = (job: RenderQueueJob): RenderJobSpec | null => {
+    const sources = jobSources(job);
+    const profile = OUTPUT_PROFILES.find(p => p.id === job.profileId);
+    if (!sources || !profile) return null;
+    const { video, track } = sources;
+    const duration = trimmedDuration(video);
+    return {
+      id: job.id,
+      video: {
+        file: video.file,
+        width: video.width,
+        height: video.height,
+        sampleAspectRatio: pixelAspectRatio(video.probe),
+        frameRate: outputFrameRate(video.probe),
+        reframe: video.reframe,
+        trimStart: video.trimStart,
+        startsOnKeyframe: isOnKeyframe(video.trimStart, video.keyframes),
+        copyable: canCopyVideoStream(video.probe),
+        hasAudio: hasAudioStream(video.probe)
+      },
+      audio: { file: track.file, name: track.name },
+      mix: track.mix,
+      fadeIn: track.fadeIn,
+      fadeOut: track.fadeOut,
+      loudnessTarget: projectRef.current.loudnessTarget,
+      arrangement: arrangeTrack(track, duration),
+      duration,
+      profile
+    };
+  };
 
-                // Determine Crop Filters
-                let filterComplex = "";
-                let needsReEncoding = false;
-                
-                // Crop Logic
-                const currentAspectRatio = uploadedVideo.width / uploadedVideo.height;
-                const targetAspectRatio = 9/16;
-                const isLandscape = currentAspectRatio > targetAspectRatio + 0.01;
-                
-                // Downscale logic to prevent browser crash (Max 720p width for rendering speed)
-                // If it's landscape, we scale height to something reasonable (e.g., 1280) then crop width
-                const MAX_H = 1280; 
-
-                if (isLandscape) {
-                    needsReEncoding = true;
-                    // Scale so height is MAX_H, then crop width to be 9/16 of height
-                    // crop=w=h*(9/16):h=h:x=(in_w-out_w)/2:y=0
-                    filterComplex = `scale=-2:${MAX_H},crop=ih*(9/16):ih:(iw-ow)/2:0`;
-                } else if (uploadedVideo.height > MAX_H) {
-                    needsReEncoding = true;
-                    filterComplex = `scale=-2:${MAX_H}`;
-                }
-
-                // Construct Command
-                const args = [
-                    '-i', videoFileName,            // Input 0: Video
-                    '-ss', track.startTime.toString(), // Seek Audio Input
-                    '-i', audioFileName,            // Input 1: Audio
-                    '-t', uploadedVideo.duration.toString(), // Trim to video duration
-                    '-map', '0:v',                  // Map Video from Input 0
-                    '-map', '1:a',                  // Map Audio from Input 1
-                ];
-
-                if (needsReEncoding) {
-                    args.push('-vf', filterComplex);
-                    args.push('-c:v', 'libx264');
-                    args.push('-preset', 'ultrafast'); // Speed over size
-                    args.push('-crf', '28');           // Reasonable quality
-                } else {
-                    args.push('-c:v', 'copy');
-                }
-
-                args.push('-c:a', 'aac');          // Re-encode audio to ensure compatibility
-                args.push(outputFileName);
-
-                console.log(`Running FFmpeg for track ${i}`, args);
-                
-                // EXECUTE
-                await ffmpeg.run(...args);
-
-                // READ OUTPUT
-                const data = ffmpeg.FS('readFile', outputFileName);
-                const blob = new Blob([data.buffer], { type: 'video/mp4' });
-                const finalUrl = URL.createObjectURL(blob);
-
-                generatedResults.push({
-                    id: track.id,
-                    audioTrackName: track.name,
-                    videoUrl: finalUrl,
-                    audioUrl: track.url, 
-                    audioStartTime: track.startTime,
-                    videoDuration: uploadedVideo.duration,
-                    blob: blob,
-                    createdAt: new Date()
-                });
-
-                // CLEANUP (Audio & Output)
-                try { ffmpeg.FS('unlink', audioFileName); } catch(e) {}
-                try { ffmpeg.FS('unlink', outputFileName); } catch(e) {}
-
-                setProgress(i + 1);
-            }
-
-            // Final Cleanup
-            try { ffmpeg.FS('unlink', videoFileName); } catch(e) {}
-
-            setResults(generatedResults);
-            setStep(AppStep.RESULTS);
+  const jobLabel = (job: RenderQueueJob) => {
+    const video = videos.find(v => v.id === job.videoId);
+    const track = audioTracks.find(t => t.id === job.trackId);
+    return [video?.file.name, track?.name, getOutputProfile(job.profileId).name].filter(Boolean).join(' · ');
+  };
+
+  const jobDuration = (job: RenderQueueJob) => {
+    const video = videos.find(v => v.id === job.videoId);
+    return video ? trimmedDuration(video) : 0;
+  };
+
+  // Progress across the jobs still meant to render: done ones, the running one, then the line
+  const queueEstimate = (() => {
+    const pending = (['done', 'running', 'queued'] as const).flatMap(status => queue.filter(job => job.status === status));
+    const durations = pending.map(jobDuration);
+    const jobIndex = countJobs(queue, 'done');
+    return estimateRenderProgress(durations, jobIndex, (progress?.jobRatio ?? 0) * (durations[jobIndex] ?? 0), progress?.speed ?? null);
+  })();
 
+  /**
+   * Renders the queued jobs one at a time until none is left. Each result
+   * joins the gallery as soon as it is ready; a failure is recorded on its
+   * job and the queue moves on.
+   */
+  const runQueue = async () => {
+    if (queueRunningRef.current) return;
+    queueRunningRef.current = true;
+    setRendering(true);
+    if (!renderClientRef.current) {
+      renderClientRef.current = new RenderWorkerClient();
+    }
+    const renderClient = renderClientRef.current;
+    const unsubscribe = renderClient.on('progress', (event) => {
+      setProgress(event);
+      setProgressMessage(event.message);
+    });
+
+    try {
+      while (true) {
+        const job = nextQueuedJob(queueRef.current);
+        if (!job) break;
+        const spec = jobSpec(job);
+        if (!spec) {
+          updateQueue(q => updateQueueJob(q, job.id, { status: 'failed', error: MISSING_SOURCES_ERROR }));
+          continue;
+        }
+        const plan = planJobMemory(spec);
+        if (plan.status === 'refused') {
+          updateQueue(q => updateQueueJob(q, job.id, { status: 'failed', error: plan.message }));
+          continue;
+        }
+
+        updateQueue(q => updateQueueJob(q, job.id, {
+          status: 'running',
+          attempts: job.attempts + 1,
+          error: null,
+          logTail: [],
+          notice: plan.status === 'downsized' ? plan.message : null
+        }));
+        setProgress(null);
+        setProgressMessage("Carregando motor de vídeo...");
+        try {
+          const [output] = await renderClient.render([plan.job]);
+          // The video or track may have been removed during the render
+          const sources = jobSources(job);
+          if (!sources) {
+            releaseResultFile(output.blob);
+            updateQueue(q => updateQueueJob(q, job.id, { status: 'failed', error: MISSING_SOURCES_ERROR }));
+            continue;
+          }
+          holdResultFile(output.blob);
+          const { video, track } = sources;
+          const result: ProcessedResult = {
+            id: job.id,
+            videoId: video.id,
+            videoName: video.file.name,
+            trackId: job.trackId,
+            profileId: job.profileId,
+            audioTrackName: track.name,
+            videoUrl: URL.createObjectURL(output.blob),
+            audioUrl: track.url,
+            audioStartTime: track.startTime,
+            videoDuration: spec.duration,
+            blob: output.blob,
+            createdAt: new Date()
+          };
+          setResults(prev => [...prev, result]);
+          updateQueue(q => updateQueueJob(q, job.id, { status: 'done' }));
         } catch (err) {
-            console.error("Processing Error:", err);
-            const msg = err instanceof Error ? err.message : "Erro desconhecido";
-            setErrorMsg(`Erro: ${msg}. Tente usar arquivos menores ou recarregar.`);
-            setStep(AppStep.CONFIGURE_AUDIO);
+          if (err instanceof RenderCancelledError) {
+            updateQueue(q => updateQueueJob(q, job.id, { status: 'cancelled' }));
+            continue;
+          }
+          console.error("Render job failed:", err);
+          updateQueue(q => updateQueueJob(q, job.id, {
+            status: 'failed',
+            error: err instanceof Error ? err.message : "Erro desconhecido",
+            logTail: err instanceof RenderJobError ? err.logTail : []
+          }));
         }
-    }, 500);
+      }
+    } finally {
+      unsubscribe();
+      queueRunningRef.current = false;
+      setRendering(false);
+      setProgress(null);
+    }
+
+    // Straight to the gallery when everything rendered
+    if (queueRef.current.length > 0 && queueRef.current.every(job => job.status === 'done')) {
+      setStep(AppStep.RESULTS);
+    }
   };
 
-  const resetApp = () => {
+  const startProcessing = () => {
+    if (selectedPairs.length === 0 || queueRunningRef.current) return;
+
+    // Every ticked video × track pair is rendered once per selected output profile
+    releaseResults(results);
+    setResults([]);
+    // Jobs that can't fit in memory fail right away instead of midway through the batch
+    updateQueue(() => selectedPairs.flatMap(({ video, track }) =>
+      outputProfiles.map(profile => {
+        const job = createQueueJob(video.id, track.id, profile.id);
+        const spec = jobSpec(job);
+        const plan = spec && planJobMemory(spec);
+        return plan?.status === 'refused' ? { ...job, status: 'failed' as const, error: plan.message } : job;
+      })
+    ));
+    setErrorMsg(null);
+    setStep(AppStep.PROCESSING);
+    runQueue();
+  };
+
+  // Stopping the worker drops its FFmpeg filesystem, partial output included
+  const cancelJob = (id: string) => {
+    if (queueRef.current.find(job => job.id === id)?.status === 'running') renderClientRef.current?.cancel();
+  };
+
+  const cancelAllJobs = () => {
+    updateQueue(cancelQueuedJobs);
+    renderClientRef.current?.cancel();
+  };
+
+  const retryJob = (id: string) => {
+    updateQueue(q => retryQueueJob(q, id));
+    runQueue();
+  };
+
+  const retryFailedJobs = () => {
+    updateQueue(q => q.reduce((next, job) => job.status === 'failed' ? retryQueueJob(next, job.id) : next, q));
+    runQueue();
+  };
+
+  const downloadAllResults = () => {
+      const entries = resultEntries();
+      createZip(entries, (i) => setZipProgress(`Preparando ${i + 1} de ${entries.length}...`))
+          .then(zip => downloadBlob(zip, `${sanitizeFilename(projectName || 'resultados')}.zip`))
+          .catch(err => {
+              console.error("Zip failed:", err);
+              setProjectError(`Não foi possível montar o .zip: ${err instanceof Error ? err.message : 'erro desconhecido'}`);
+          })
+          .finally(() => setZipProgress(null));
+  };
+
+  const resultEntries = () => results.map(r => ({ name: outputFilenames.get(r.id)!, blob: r.blob }));
+
+  const saveAllToFolder = () => {
+      const entries = resultEntries();
+      setSaveNotice(null);
+      saveToFolder(entries, (i) => setSaveProgress(`Salvando ${i + 1} de ${entries.length}...`))
+          .then(count => {
+              if (count !== null) setSaveNotice(`${count} ${count === 1 ? 'vídeo salvo' : 'vídeos salvos'} na pasta escolhida.`);
+          })
+          .catch(err => {
+              console.error("Folder save failed:", err);
+              setProjectError(`Não foi possível salvar na pasta: ${err instanceof Error ? err.message : 'erro desconhecido'}`);
+          })
+          .finally(() => setSaveProgress(null));
+  };
+
+  // Mobile: one share sheet with every video
+  const shareAllResults = () => {
+      shareFiles(resultEntries(), projectName || undefined).catch(err => {
+          console.error("Share failed:", err);
+          setProjectError("Não foi possível compartilhar os vídeos. Use \"Baixar tudo\".");
+      });
+  };
+
+  const clearProject = () => {
       // Revoke old URLs
-      results.forEach(r => URL.revokeObjectURL(r.videoUrl));
-      if (uploadedVideo) URL.revokeObjectURL(uploadedVideo.url);
-      audioTracks.forEach(t => URL.revokeObjectURL(t.url));
+      releaseResults(results);
+      videos.forEach(v => URL.revokeObjectURL(v.url));
+      audioTracks.forEach(t => {
+          URL.revokeObjectURL(t.url);
+          releaseTrackAnalysis(t.id);
+      });
 
-      setUploadedVideo(null);
+      setVideos([]);
+      setActiveVideoId(null);
+      setPairs({});
       setAudioTracks([]);
       setResults([]);
-      setStep(AppStep.UPLOAD_VIDEO);
+      cancelAllJobs();
+      updateQueue(() => []);
+      setProjectId(null);
+      setProjectName('');
+      setSaveNotice(null);
       setErrorMsg(null);
-      // We don't reset ffmpeg instance to save reload time
+      // We don't reset the render engine to save reload time
+  };
+
+  // The current project is already in the list, only the last edits need flushing
+  const resetApp = async () => {
+      await persistProject();
+      clearProject();
+      setStep(AppStep.UPLOAD_VIDEO);
+  };
+
+  const showProjects = async () => {
+      await persistProject();
+      clearProject();
+      setProjects(null);
+      setStep(AppStep.PROJECTS);
+      refreshProjects();
   };
 
   return (
@@ -267,60 +737,212 @@ function App() {
                   AV
                </div>
                <h1 className="font-bold text-lg tracking-tight">AudioVideo <span className="text-blue-500">Merger</span></h1>
+               {projectName && step !== AppStep.PROJECTS && (
+                  <span className="hidden sm:inline text-sm text-slate-500 truncate max-w-[14rem]" title={projectName}>· {projectName}</span>
+               )}
+            </div>
+            <div className="flex items-center gap-2">
+                {step !== AppStep.PROJECTS && (
+                    <button
+                        onClick={showProjects}
+                        className="text-xs text-slate-400 hover:text-white bg-slate-800 px-3 py-1.5 rounded-full transition-colors border border-slate-700"
+                    >
+                        Projetos
+                    </button>
+                )}
+                <button 
+                    onClick={resetApp}
+                    className="text-xs text-slate-400 hover:text-white flex items-center gap-1 bg-slate-800 px-3 py-1.5 rounded-full transition-colors border border-slate-700"
+                >
+                    <RestartIcon /> Novo Projeto
+                </button>
+                <button
+                    onClick={logout}
+                    className="text-xs text-slate-400 hover:text-white bg-slate-800 px-3 py-1.5 rounded-full transition-colors border border-slate-700"
+                    title={session ? `Conectado como ${session.user}` : undefined}
+                >
+                    Sair
+                </button>
             </div>
-            <button 
-                onClick={resetApp}
-                className="text-xs text-slate-400 hover:text-white flex items-center gap-1 bg-slate-800 px-3 py-1.5 rounded-full transition-colors border border-slate-700"
-            >
-                <RestartIcon /> Novo Projeto
-            </button>
           </div>
         </header>
       )}
 
       <main className="max-w-5xl mx-auto px-4 py-8">
         
-        {step === AppStep.LOGIN && <LoginScreen onLoginSuccess={handleLoginSuccess} />}
+        {step === AppStep.LOGIN && (sessionChecked
+          ? <LoginScreen provider={authProvider} onLoginSuccess={handleLoginSuccess} />
+          : (
+            <div className="min-h-[50vh] flex items-center justify-center text-slate-400 text-sm">
+              {sessionHint ? `Verificando a sessão de ${sessionHint.user}...` : "Verificando a sessão..."}
+            </div>
+          ))}
+
+        {projectError && step !== AppStep.PROJECTS && (
+          <div className="mb-6 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-200 text-sm flex items-center justify-between gap-3">
+            <span>{projectError}</span>
+            <button onClick={() => setProjectError(null)} className="text-amber-300 hover:text-white text-xs flex-shrink-0">Fechar</button>
+          </div>
+        )}
+
+        {step === AppStep.PROJECTS && (
+          <ProjectList
+             projects={projects}
+             storage={storageEstimate}
+             error={projectError}
+             onCreate={resetApp}
+             onOpen={openProject}
+             onDuplicate={handleDuplicateProject}
+             onRename={handleRenameProject}
+             onDelete={handleDeleteProject}
+             onImport={handleImportFile}
+          />
+        )}
+
+        {pendingImport && (
+          <MediaRelinkDialog
+             imported={pendingImport}
+             busy={relinking}
+             onAddFiles={handleRelinkFiles}
+             onConfirm={() => openImportedProject(pendingImport)}
+             onCancel={() => setPendingImport(null)}
+          />
+        )}
 
         {step === AppStep.UPLOAD_VIDEO && (
           <div className="flex flex-col items-center justify-center min-h-[60vh] animate-fade-in">
-             <VideoUploader onVideoSelected={handleVideoSelected} />
+             <VideoUploader
+                minDuration={minVideoDuration}
+                onMinDurationChange={setMinVideoDuration}
+                onVideoSelected={handleVideoSelected}
+             />
+             {videos.length > 0 && (
+                <button
+                    onClick={() => setStep(AppStep.CONFIGURE_AUDIO)}
+                    className="mt-6 text-sm text-slate-400 hover:text-white"
+                >
+                    Voltar ao projeto ({videos.length} {videos.length === 1 ? 'vídeo' : 'vídeos'})
+                </button>
+             )}
           </div>
         )}
 
-        {step === AppStep.CONFIGURE_AUDIO && uploadedVideo && (
+        {step === AppStep.TRIM_VIDEO && activeVideo && (
+          <VideoTrimmer
+             key={activeVideo.id}
+             video={activeVideo}
+             minDuration={minVideoDuration}
+             onChange={updateActiveVideo}
+             onContinue={() => {
+                 suggestStartTimes([activeVideo], audioTracks);
+                 setStep(AppStep.CONFIGURE_AUDIO);
+             }}
+          />
+        )}
+
+        {step === AppStep.CONFIGURE_AUDIO && activeVideo && (
           <div className="animate-fade-in pb-20">
             <div className="flex flex-col md:flex-row gap-8">
                 
                 {/* Left: Video Preview */}
                 <div className="w-full md:w-80 flex-shrink-0 mx-auto">
                     <div className="sticky top-24">
-                        <div className="text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wider text-center">Preview (9:16 Crop)</div>
-                        <div className="aspect-[9/16] bg-black rounded-2xl overflow-hidden shadow-2xl border border-slate-700 relative group mx-auto">
-                             {/* Object-cover simulates the crop behavior for landscape videos */}
-                             <video 
-                                src={uploadedVideo.url} 
-                                className="w-full h-full object-cover" 
-                                controls 
-                                muted // Always muted in preview
-                             />
-                             <div className="absolute top-2 left-2 bg-red-500/80 backdrop-blur-md px-2 py-1 rounded-md text-[10px] text-white border border-white/10 flex items-center gap-1">
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor">
-                                  <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM12.293 7.293a1 1 0 011.414 0L15 8.586l1.293-1.293a1 1 0 111.414 1.414L16.414 10l1.293 1.293a1 1 0 01-1.414 1.414L15 11.414l-1.293 1.293a1 1 0 01-1.414-1.414L13.586 10l-1.293-1.293a1 1 0 010-1.414z" clipRule="evenodd" />
-                                </svg>
-                                Som original removido
-                             </div>
-                             
-                             {/* Crop Guides for context if video is wider than tall */}
-                             {uploadedVideo.width > uploadedVideo.height && (
-                                <div className="absolute inset-0 pointer-events-none border-2 border-yellow-500/20 z-10">
-                                    <div className="absolute bottom-2 right-2 text-[9px] text-yellow-500/50">Auto-Cropped</div>
-                                </div>
-                             )}
+                        {/* Project videos, the highlighted one is previewed and edited */}
+                        <div className="mb-3 flex flex-wrap justify-center gap-1.5">
+                            {videos.map(v => (
+                                <span
+                                    key={v.id}
+                                    className={`inline-flex items-center text-[11px] rounded-full border transition-colors ${
+                                        v.id === activeVideo.id
+                                          ? 'bg-slate-700 border-slate-500 text-white'
+                                          : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+                                    }`}
+                                >
+                                    <button onClick={() => setActiveVideoId(v.id)} className="pl-2.5 py-1 max-w-[9rem] truncate" title={v.file.name}>
+                                        🎬 {v.file.name}
+                                    </button>
+                                    <button onClick={() => removeVideo(v.id)} className="px-2 py-1 hover:text-red-400" title="Remover vídeo">
+                                        ×
+                                    </button>
+                                </span>
+                            ))}
+                            <button
+                                onClick={() => setStep(AppStep.UPLOAD_VIDEO)}
+                                className="text-[11px] px-2.5 py-1 rounded-full border border-dashed border-slate-600 text-slate-400 hover:text-white hover:border-slate-400"
+                            >
+                                + Vídeo
+                            </button>
+                        </div>
+                        <div className="mb-3">
+                            <OutputProfileSelector
+                                profiles={OUTPUT_PROFILES}
+                                selectedIds={outputProfileIds}
+                                onToggle={toggleOutputProfile}
+                            />
                         </div>
+                        {outputProfiles.length > 1 ? (
+                            <div className="flex justify-center gap-1 mb-2">
+                                {outputProfiles.map(p => (
+                                    <button
+                                        key={p.id}
+                                        onClick={() => setPreviewProfileId(p.id)}
+                                        className={`text-[10px] uppercase tracking-wider px-2 py-0.5 rounded ${
+                                            p.id === previewProfile.id ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'
+                                        }`}
+                                    >
+                                        {p.name}
+                                    </button>
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="text-xs font-semibold text-slate-400 mb-2 uppercase tracking-wider text-center">Preview ({previewProfile.name})</div>
+                        )}
+                        <VideoPreview
+                            key={activeVideo.id}
+                            video={activeVideo}
+                            profile={previewProfile}
+                            onReframeChange={(reframe) => updateActiveVideo({ reframe })}
+                            originalAudioKept={originalAudioKept}
+                        />
                         <div className="mt-4 text-center">
-                            <p className="text-sm text-slate-400">Duração: {Math.floor(uploadedVideo.duration)}s</p>
-                            <p className="text-xs text-slate-500 mt-1">Este vídeo está mudo. Dê play nos áudios ao lado para testar.</p>
+                            <p className="text-sm text-slate-400">
+                                Duração: {Math.floor(videoDuration)}s
+                                <button
+                                    onClick={() => setStep(AppStep.TRIM_VIDEO)}
+                                    className="ml-2 text-xs text-blue-400 hover:text-blue-300 underline-offset-2 hover:underline"
+                                >
+                                    Cortar vídeo
+                                </button>
+                            </p>
+                            <p className="text-xs text-slate-500 mt-1">
+                                {originalAudioKept
+                                    ? 'O áudio original entra na mixagem. Abra a prévia do corte de cada áudio para ver e ouvir o resultado.'
+                                    : 'Este vídeo está mudo. Abra a prévia do corte de cada áudio para ver e ouvir o resultado.'}
+                            </p>
+                        </div>
+                        <div className="mt-4">
+                            <LoudnessTargetSelect value={loudnessTarget} onChange={setLoudnessTarget} />
+                        </div>
+                        <div className="mt-4 flex flex-col items-center gap-1 text-xs">
+                            <span className="text-slate-500">Exportar projeto</span>
+                            <div className="flex gap-3">
+                                <button
+                                    onClick={() => exportProject(false)}
+                                    disabled={exporting}
+                                    className="text-blue-400 hover:text-blue-300 disabled:text-slate-600"
+                                    title="Só as configurações; os arquivos são localizados ao importar"
+                                >
+                                    Configurações (.json)
+                                </button>
+                                <button
+                                    onClick={() => exportProject(true)}
+                                    disabled={exporting}
+                                    className="text-blue-400 hover:text-blue-300 disabled:text-slate-600"
+                                    title="Configurações com todos os vídeos e áudios"
+                                >
+                                    {exporting ? 'Exportando...' : 'Pacote com mídia (.zip)'}
+                                </button>
+                            </div>
                         </div>
                     </div>
                 </div>
@@ -363,12 +985,25 @@ function App() {
                         </div>
                     ) : (
                         <div className="space-y-4">
+                            {videos.length > 1 && (
+                                <PairMatrix
+                                    videos={videos}
+                                    tracks={audioTracks}
+                                    pairs={pairs}
+                                    activeVideoId={activeVideo.id}
+                                    onSelectVideo={setActiveVideoId}
+                                    onSetEnabled={setPairsEnabled}
+                                />
+                            )}
                             {audioTracks.map(track => (
                                 <AudioTrackItem 
-                                    key={track.id}
-                                    track={track}
-                                    videoDuration={uploadedVideo.duration}
-                                    onUpdate={updateAudioTrack}
+                                    key={pairKey(activeVideo.id, track.id)}
+                                    track={trackForPair(track, getPair(pairs, activeVideo.id, track.id))}
+                                    video={activeVideo}
+                                    profile={previewProfile}
+                                    videoDuration={videoDuration}
+                                    loudnessTarget={loudnessTarget}
+                                    onUpdate={updateTrackUnderVideo(activeVideo.id)}
                                     onRemove={removeAudioTrack}
                                 />
                             ))}
@@ -381,68 +1016,120 @@ function App() {
             <div className="fixed bottom-0 left-0 right-0 bg-slate-900/90 backdrop-blur-md border-t border-slate-800 p-4 z-30">
                 <div className="max-w-5xl mx-auto flex justify-between items-center">
                     <div className="text-sm text-slate-400">
-                        {audioTracks.length} áudios configurados
+                        {videos.length > 1
+                            ? `${selectedPairs.length} pares × ${outputProfiles.length} formatos`
+                            : `${selectedPairs.length} áudios × ${outputProfiles.length} formatos`}
                     </div>
                     <button
                         onClick={startProcessing}
-                        disabled={audioTracks.length === 0}
+                        disabled={renderCount === 0}
                         className={`
                            py-3 px-8 rounded-xl font-bold text-lg shadow-xl transition-all
-                           ${audioTracks.length > 0 
+                           ${renderCount > 0 
                              ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white hover:scale-105 hover:shadow-blue-500/25' 
                              : 'bg-slate-700 text-slate-500 cursor-not-allowed'}
                         `}
                     >
-                        Gerar {audioTracks.length} Vídeos
+                        Gerar {renderCount} Vídeos
                     </button>
                 </div>
             </div>
           </div>
         )}
 
-        {step === AppStep.PROCESSING && (
-            <ProcessingModal progress={progress} total={audioTracks.length} message={progressMessage} />
-        )}
-
-        {step === AppStep.RESULTS && (
+        {(step === AppStep.PROCESSING || step === AppStep.RESULTS) && (
             <div className="animate-fade-in pb-20">
                 <h2 className="text-3xl font-bold mb-8 text-center bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
-                    Galeria Pronta
+                    {step === AppStep.PROCESSING ? 'Renderizando' : 'Galeria Pronta'}
                 </h2>
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {results.map((result) => (
-                        <div key={result.id} className="bg-slate-800 rounded-2xl overflow-hidden shadow-xl border border-slate-700 flex flex-col hover:border-slate-500 transition-colors">
-                            {/* Uses the result video directly as it now contains the audio */}
-                            {/* Using ResultVideoPlayer to ensure audio sync if it was merged, or just plain video if blob is ready */}
-                            <div className="aspect-[9/16] bg-black">
-                                <video 
-                                    src={result.videoUrl} 
-                                    controls 
-                                    className="w-full h-full object-cover" 
-                                />
-                            </div>
 
-                            <div className="p-4 flex flex-col gap-3 bg-slate-800">
-                                <h3 className="font-medium text-white truncate text-sm" title={result.audioTrackName}>
-                                    🎵 {result.audioTrackName}
-                                </h3>
-                                <div className="text-[10px] text-slate-400 mb-1">
-                                    Arquivo pronto com áudio mixado.
-                                </div>
-                                <a 
-                                    href={result.videoUrl} 
-                                    download={`video-editado-${result.audioTrackName.replace(/\s+/g, '-')}.mp4`}
-                                    className="w-full bg-slate-700 hover:bg-green-600 text-white text-sm font-medium py-2.5 rounded-lg transition-all flex items-center justify-center gap-2 group"
-                                >
-                                    <DownloadIcon /> 
-                                    <span>Salvar na Galeria</span>
-                                </a>
-                            </div>
-                        </div>
-                    ))}
+                {(step === AppStep.PROCESSING || queue.some(job => job.status !== 'done')) && (
+                    <RenderQueuePanel
+                        queue={queue}
+                        labelOf={jobLabel}
+                        running={rendering}
+                        message={progressMessage}
+                        jobRatio={progress?.jobRatio ?? 0}
+                        overallRatio={queueEstimate.overallRatio}
+                        speed={progress?.speed}
+                        etaSeconds={queueEstimate.etaSeconds}
+                        onResume={runQueue}
+                        onCancel={cancelJob}
+                        onCancelAll={cancelAllJobs}
+                        onRetry={retryJob}
+                        onRetryFailed={retryFailedJobs}
+                        onRemove={(id) => updateQueue(q => removeQueueJob(q, id))}
+                    />
+                )}
+
+                <div className="mb-8 bg-slate-800 border border-slate-700 rounded-xl p-4 flex flex-col sm:flex-row sm:items-end gap-4">
+                    <label className="flex-grow text-xs text-slate-400">
+                        Nome dos arquivos
+                        <input
+                            value={filenameTemplate}
+                            onChange={(e) => setFilenameTemplate(e.target.value)}
+                            onBlur={() => { if (!filenameTemplate.trim()) setFilenameTemplate(DEFAULT_FILENAME_TEMPLATE); }}
+                            className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1.5 text-sm text-white font-mono focus:outline-none focus:border-blue-500"
+                        />
+                        <span className="block mt-1 text-[11px] text-slate-500">
+                            {FILENAME_TOKENS.map(t => `{${t}}`).join(' ')} · ex.: {results[0] ? outputFilenames.get(results[0].id) : ''}
+                        </span>
+                    </label>
+                    <button
+                        onClick={downloadAllResults}
+                        disabled={zipProgress !== null || results.length === 0}
+                        className={`flex-shrink-0 py-2.5 px-6 rounded-lg font-medium text-sm transition-all ${
+                            zipProgress !== null
+                              ? 'bg-slate-700 text-slate-400 cursor-wait'
+                              : 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white hover:shadow-lg hover:shadow-blue-500/25'
+                        }`}
+                    >
+                        {zipProgress ?? `Baixar tudo (.zip, ${results.length})`}
+                    </button>
+                    {canSaveToFolder() ? (
+                        <button
+                            onClick={saveAllToFolder}
+                            disabled={saveProgress !== null || results.length === 0}
+                            className="flex-shrink-0 py-2.5 px-5 rounded-lg font-medium text-sm bg-slate-700 hover:bg-slate-600 text-white transition-colors disabled:text-slate-400 disabled:cursor-wait"
+                        >
+                            {saveProgress ?? 'Salvar em uma pasta'}
+                        </button>
+                    ) : results.length > 1 && canShareFiles(resultEntries()) && (
+                        <button
+                            onClick={shareAllResults}
+                            className="flex-shrink-0 py-2.5 px-5 rounded-lg font-medium text-sm bg-slate-700 hover:bg-slate-600 text-white transition-colors"
+                        >
+                            Compartilhar todos
+                        </button>
+                    )}
+                </div>
+                {saveNotice && (
+                    <p className="-mt-6 mb-8 text-center text-sm text-emerald-400">{saveNotice}</p>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {Array.from(new Set(results.map(r => pairKey(r.videoId, r.trackId)))).map(key => {
+                        const group = results.filter(r => pairKey(r.videoId, r.trackId) === key);
+                        return (
+                            <ResultGroupCard
+                                key={key}
+                                trackName={group[0].audioTrackName}
+                                videoName={videos.length > 1 ? group[0].videoName : undefined}
+                                results={group}
+                                filenames={outputFilenames}
+                            />
+                        );
+                    })}
                 </div>
                 
-                <div className="mt-12 text-center">
+                <div className="mt-12 flex justify-center gap-8">
+                    {!rendering && (
+                        <button
+                            onClick={() => setStep(AppStep.CONFIGURE_AUDIO)}
+                            className="text-slate-400 hover:text-white underline decoration-slate-600 hover:decoration-white underline-offset-4 transition-all"
+                        >
+                            Voltar à edição
+                        </button>
+                    )}
                     <button 
                         onClick={resetApp}
                         className="text-slate-400 hover:text-white underline decoration-slate-600 hover:decoration-white underline-offset-4 transition-all"
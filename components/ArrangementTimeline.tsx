@@ -0,0 +1,56 @@
+import React from 'react';
+import { AudioArrangement } from '../types';
+import { arrangementLength, placePieces } from '../services/audioArrangement';
+
+interface ArrangementTimelineProps {
+  arrangement: AudioArrangement;
+  duration: number; // output (video) length
+}
+
+const formatTime = (time: number) => {
+  const mins = Math.floor(time / 60);
+  const secs = Math.floor(time % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * The output timeline of a short track: which range of the file plays when,
+ * where the crossfades overlap and where silence fills the rest.
+ */
+export const ArrangementTimeline: React.FC<ArrangementTimelineProps> = ({ arrangement, duration }) => {
+  const placed = placePieces(arrangement);
+  const musicEnd = arrangementLength(arrangement);
+  const percent = (t: number) => `${(Math.min(t, duration) / duration) * 100}%`;
+
+  return (
+    <div className="relative h-7 bg-slate-900 rounded-md mb-2 overflow-hidden border border-slate-700 select-none text-[9px]">
+      {placed.map((piece, i) => (
+        <div
+          key={i}
+          className={`absolute top-0 bottom-0 flex items-center justify-center overflow-hidden whitespace-nowrap border-r border-slate-900 ${
+            i % 2 === 0 ? 'bg-violet-500/40 text-violet-100' : 'bg-indigo-500/40 text-indigo-100'
+          }`}
+          style={{ left: percent(piece.outputStart), width: percent(piece.duration) }}
+          title={`${formatTime(piece.sourceStart)} – ${formatTime(piece.sourceStart + piece.duration)} do áudio`}
+        >
+          {formatTime(piece.sourceStart)}–{formatTime(piece.sourceStart + piece.duration)}
+        </div>
+      ))}
+      {arrangement.crossfade > 0 && placed.slice(1).map((piece, i) => (
+        <div
+          key={`xf${i}`}
+          className="absolute top-0 bottom-0 bg-white/20 pointer-events-none"
+          style={{ left: percent(piece.outputStart), width: percent(arrangement.crossfade) }}
+        />
+      ))}
+      {musicEnd < duration && (
+        <div
+          className="absolute top-0 bottom-0 right-0 flex items-center justify-center text-slate-500 bg-[repeating-linear-gradient(45deg,transparent,transparent_4px,rgba(148,163,184,0.12)_4px,rgba(148,163,184,0.12)_8px)]"
+          style={{ left: percent(musicEnd) }}
+        >
+          silêncio
+        </div>
+      )}
+    </div>
+  );
+};
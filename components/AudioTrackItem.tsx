@@ -1,21 +1,77 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { AudioTrack } from '../types';
+import React, { useState, useEffect } from 'react';
+import { AudioTrack, OutputProfile, UploadedVideo } from '../types';
+import { WaveformCanvas } from './WaveformCanvas';
+import { WaveformData, getTrackWaveform } from '../services/waveform';
+import { BeatAnalysis, getTrackBeats, snapToGrid } from '../services/beatDetection';
+import { SegmentReason, SegmentSuggestion, getTrackSegments } from '../services/segmentSuggestion';
+import { LoudnessProfile, getTrackLoudness, integratedLoudness } from '../services/loudness';
+import { PreviewSegment } from '../services/mixPreview';
+import { MIN_PIECE_SEC, arrangeTrack, arrangementLength, isShortTrack, placePieces } from '../services/audioArrangement';
+import { MAX_FADE_SEC } from '../constants';
+import { FillControls } from './FillControls';
+import { ArrangementTimeline } from './ArrangementTimeline';
+import { MixControls } from './MixControls';
+import { TrackPreviewPlayer } from './TrackPreviewPlayer';
+
+// Seconds shown on each side of the IN/OUT points in the zoomed strips
+const ZOOM_RADIUS_SEC = 2;
+
+const REASON_LABELS: Record<SegmentReason, string> = {
+  energy: 'Energia',
+  buildup: 'Subida',
+  repetition: 'Refrão'
+};
 
 interface AudioTrackItemProps {
   track: AudioTrack;
-  videoDuration: number;
+  video: UploadedVideo;  // the video the track is edited under
+  profile: OutputProfile; // framing of the preview
+  videoDuration: number; // trimmed length
+  loudnessTarget: number | null;
   onUpdate: (id: string, updates: Partial<AudioTrack>) => void;
   onRemove: (id: string) => void;
 }
 
 export const AudioTrackItem: React.FC<AudioTrackItemProps> = ({ 
   track, 
+  video,
+  profile,
   videoDuration, 
+  loudnessTarget,
   onUpdate, 
   onRemove 
 }) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const [waveformError, setWaveformError] = useState(false);
+  const [beats, setBeats] = useState<BeatAnalysis | null>(null);
+  const [suggestions, setSuggestions] = useState<SegmentSuggestion[]>([]);
+  const [loudness, setLoudness] = useState<LoudnessProfile | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getTrackWaveform(track.id, track.file)
+      .then(data => { if (!cancelled) setWaveform(data); })
+      .catch(err => {
+        console.error("Waveform decode failed:", err);
+        if (!cancelled) setWaveformError(true);
+      });
+    getTrackBeats(track.id, track.file)
+      .then(data => { if (!cancelled) setBeats(data); })
+      .catch(err => console.error("Beat analysis failed:", err));
+    getTrackLoudness(track.id, track.file)
+      .then(data => { if (!cancelled) setLoudness(data); })
+      .catch(err => console.error("Loudness measurement failed:", err));
+    return () => { cancelled = true; };
+  }, [track.id, track.file]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getTrackSegments(track.id, track.file, videoDuration)
+      .then(data => { if (!cancelled) setSuggestions(data); })
+      .catch(err => console.error("Segment suggestion failed:", err));
+    return () => { cancelled = true; };
+  }, [track.id, track.file, videoDuration]);
   
   // Format seconds to MM:SS
   const formatTime = (time: number) => {
@@ -24,50 +80,47 @@ export const AudioTrackItem: React.FC<AudioTrackItemProps> = ({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newStart = parseFloat(e.target.value);
+  const formatGain = (db: number) => `${db >= 0 ? '+' : ''}${db.toFixed(1)} dB`;
+
+  // The preview follows the new IN point by itself
+  const setStartTime = (newStart: number) => {
     onUpdate(track.id, { startTime: newStart });
-    
-    // Preview audio from this point if playing
-    if (audioRef.current && isPlaying) {
-        audioRef.current.currentTime = newStart;
-    }
   };
 
-  const togglePlay = () => {
-    if (!audioRef.current) return;
-
-    if (isPlaying) {
-      audioRef.current.pause();
+  const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const raw = parseFloat(e.target.value);
+    if (track.snapToBeat && beats) {
+      setStartTime(snapToGrid(raw, snapGrid, 0, maxStartTime));
     } else {
-      audioRef.current.currentTime = track.startTime;
-      audioRef.current.play();
-      
-      // Stop automatically after the video duration length is reached
-      setTimeout(() => {
-        if(audioRef.current && isPlaying) { // Check if still playing
-           // Note: This timeout isn't perfect for stopping exactly, but good enough for UI preview
-           // A real implementation handles 'timeupdate' event.
-        }
-      }, videoDuration * 1000);
+      setStartTime(raw);
     }
-    setIsPlaying(!isPlaying);
   };
 
-  // Ensure start time doesn't exceed possible range (Audio Duration - Video Duration)
-  const maxStartTime = Math.max(0, track.duration - videoDuration);
-  const endTime = Math.min(track.duration, track.startTime + videoDuration);
+  const short = isShortTrack(track, videoDuration);
+  const arrangement = arrangeTrack(track, videoDuration);
+  const placed = placePieces(arrangement);
 
-  // Percentage for visual bar
-  const startPercent = (track.startTime / track.duration) * 100;
-  const widthPercent = (videoDuration / track.duration) * 100;
+  // Ensure start time doesn't exceed possible range (Audio Duration - Video Duration).
+  // Short tracks start anywhere before their end, except stitched ones which use their ranges.
+  const maxStartTime = short
+    ? (track.fill.mode === 'stitch' ? 0 : Math.max(0, track.duration - MIN_PIECE_SEC))
+    : Math.max(0, track.duration - videoDuration);
+  const endTime = placed[0].sourceStart + placed[0].duration;
+  const clampStart = (t: number) => Math.min(maxStartTime, Math.max(0, t));
+  // Prefer downbeats, fall back to every beat when the bar phase is unknown
+  const snapGrid = beats ? (beats.downbeats.length > 0 ? beats.downbeats : beats.beats) : [];
+  const beatMarkers = beats ? beats.beats : undefined;
+  const previewSegment: PreviewSegment = {
+    duration: videoDuration,
+    fadeIn: track.fadeIn,
+    fadeOut: track.fadeOut,
+    musicEnd: arrangementLength(arrangement),
+    padFade: arrangement.padFade
+  };
+  const segmentLoudness = loudness ? integratedLoudness(loudness, placed[0].sourceStart, endTime) : null;
 
-  useEffect(() => {
-    // Stop playing if component unmounts
-    return () => {
-      if(audioRef.current) audioRef.current.pause();
-    };
-  }, []);
+  // Ranges of the file that end up in the output, each one highlighted once
+  const sourceRanges = placed.filter((piece, i) => placed.findIndex(p => p.sourceStart === piece.sourceStart) === i);
 
   return (
     <div className="bg-slate-800 rounded-xl p-4 border border-slate-700 shadow-sm transition-all hover:border-slate-600">
@@ -80,43 +133,83 @@ export const AudioTrackItem: React.FC<AudioTrackItemProps> = ({
           </div>
           <div className="min-w-0">
             <h4 className="text-white font-medium truncate text-sm" title={track.name}>{track.name}</h4>
-            <p className="text-xs text-slate-400">Total: {formatTime(track.duration)}</p>
+            <p className="text-xs text-slate-400">
+              Total: {formatTime(track.duration)}
+              {beats && beats.bpm > 0 && (
+                <span className="ml-2 text-yellow-400/80 font-mono">{Math.round(beats.bpm)} BPM</span>
+              )}
+              {segmentLoudness !== null && (
+                <span
+                  className="ml-2 text-emerald-400/80 font-mono"
+                  title={loudnessTarget !== null
+                    ? `Loudness do trecho. A renderização ajusta para ${loudnessTarget} LUFS (${formatGain(loudnessTarget - segmentLoudness)}).`
+                    : 'Loudness do trecho'}
+                >
+                  {segmentLoudness.toFixed(1)} LUFS
+                </span>
+              )}
+            </p>
           </div>
         </div>
-        <button 
-          onClick={() => onRemove(track.id)}
-          className="text-slate-500 hover:text-red-400 transition-colors p-2"
-        >
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-          </svg>
-        </button>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <label className={`flex items-center gap-1.5 text-[11px] cursor-pointer select-none px-2 py-1 rounded-full border transition-colors ${
+              track.snapToBeat ? 'border-yellow-500/40 text-yellow-300 bg-yellow-500/10' : 'border-slate-700 text-slate-500'
+            }`}
+            title="Encaixar o início do trecho nos tempos fortes da música"
+          >
+            <input
+              type="checkbox"
+              className="accent-yellow-500"
+              checked={track.snapToBeat}
+              onChange={(e) => onUpdate(track.id, { snapToBeat: e.target.checked })}
+            />
+            Snap no beat
+          </label>
+          <button 
+            onClick={() => onRemove(track.id)}
+            className="text-slate-500 hover:text-red-400 transition-colors p-2"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        </div>
       </div>
 
       {/* Interactive Timeline */}
       <div className="relative h-12 bg-slate-900 rounded-lg mb-2 overflow-hidden border border-slate-700 select-none">
-         {/* Background pattern to simulate waveform */}
-         <div className="absolute inset-0 opacity-20 flex items-center justify-around px-2">
-            {Array.from({ length: 40 }).map((_, i) => (
-                <div key={i} className="w-1 bg-white rounded-full" style={{ height: `${Math.random() * 80 + 20}%`}}></div>
-            ))}
+         {/* Real waveform of the whole track */}
+         <div className="absolute inset-0">
+            <WaveformCanvas waveform={waveform} viewStart={0} viewEnd={track.duration} />
          </div>
+         {!waveform && (
+            <div className="absolute inset-0 flex items-center justify-center text-[10px] text-slate-500">
+                {waveformError ? 'Não foi possível ler a forma de onda' : 'Analisando áudio...'}
+            </div>
+         )}
 
          {/* Selected Range Highlight */}
-         <div 
-            className="absolute top-0 bottom-0 bg-indigo-500/30 border-l border-r border-indigo-500 backdrop-blur-sm z-10 pointer-events-none transition-all duration-75"
-            style={{ 
-                left: `${startPercent}%`, 
-                width: `${widthPercent}%` 
-            }}
-         >
-            <div className="absolute top-0 left-0 bg-indigo-500 text-[10px] px-1 text-white font-bold">
-                IN
-            </div>
-            <div className="absolute bottom-0 right-0 bg-indigo-500 text-[10px] px-1 text-white font-bold">
-                OUT
+         {sourceRanges.map((piece, i) => (
+            <div 
+               key={piece.sourceStart}
+               className="absolute top-0 bottom-0 bg-indigo-500/30 border-l border-r border-indigo-500 backdrop-blur-sm z-10 pointer-events-none transition-all duration-75"
+               style={{ 
+                   left: `${(piece.sourceStart / track.duration) * 100}%`, 
+                   width: `${(piece.duration / track.duration) * 100}%` 
+               }}
+            >
+               {i === 0 && (
+                  <div className="absolute top-0 left-0 bg-indigo-500 text-[10px] px-1 text-white font-bold">
+                      IN
+                  </div>
+               )}
+               {!short && (
+                  <div className="absolute bottom-0 right-0 bg-indigo-500 text-[10px] px-1 text-white font-bold">
+                      OUT
+                  </div>
+               )}
             </div>
-         </div>
+         ))}
 
          {/* Range Input Slider */}
          <input
@@ -131,44 +224,140 @@ export const AudioTrackItem: React.FC<AudioTrackItemProps> = ({
          />
       </div>
 
+      {/* Suggested segments, best first */}
+      {suggestions.length > 1 && (
+        <div className="flex flex-wrap items-center gap-1.5 mb-2">
+          <span className="text-[10px] uppercase tracking-wider text-slate-500 mr-1">Sugestões</span>
+          {suggestions.map((s, i) => {
+            const isActive = Math.abs(s.startTime - track.startTime) < 0.05;
+            return (
+              <button
+                key={s.startTime}
+                onClick={() => setStartTime(s.startTime)}
+                className={`text-[11px] px-2 py-0.5 rounded-full border transition-colors ${
+                  isActive
+                    ? 'bg-indigo-500 border-indigo-400 text-white'
+                    : 'bg-slate-900 border-slate-700 text-slate-300 hover:border-indigo-500'
+                }`}
+                title={`Pontuação ${(s.score * 100).toFixed(0)}`}
+              >
+                {i === 0 && '★ '}{formatTime(s.startTime)} · {REASON_LABELS[s.reason]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* How a short track covers the whole video */}
+      {short && (
+        <>
+          <ArrangementTimeline arrangement={arrangement} duration={videoDuration} />
+          <FillControls
+            fill={track.fill}
+            trackDuration={track.duration}
+            onChange={(fill) => onUpdate(track.id, { fill })}
+            snap={track.snapToBeat && beats ? (t) => snapToGrid(t, snapGrid, 0, track.duration - MIN_PIECE_SEC) : undefined}
+          />
+        </>
+      )}
+
+      {/* Zoomed views around the cut points, click to fine-tune */}
+      {!short && (
+      <div className="grid grid-cols-2 gap-2 mb-2">
+         <div className="relative h-10 bg-slate-900 rounded-md overflow-hidden border border-slate-700 select-none">
+            <WaveformCanvas
+                waveform={waveform}
+                viewStart={track.startTime - ZOOM_RADIUS_SEC}
+                viewEnd={track.startTime + ZOOM_RADIUS_SEC}
+                markers={beatMarkers}
+                onSeek={(t) => setStartTime(clampStart(t))}
+            />
+            <div className="absolute top-0 bottom-0 left-1/2 w-px bg-indigo-400 pointer-events-none"></div>
+            <div className="absolute top-0 left-0 bg-indigo-500 text-[9px] px-1 text-white font-bold pointer-events-none">IN</div>
+         </div>
+         <div className="relative h-10 bg-slate-900 rounded-md overflow-hidden border border-slate-700 select-none">
+            <WaveformCanvas
+                waveform={waveform}
+                viewStart={endTime - ZOOM_RADIUS_SEC}
+                viewEnd={endTime + ZOOM_RADIUS_SEC}
+                markers={beatMarkers}
+                onSeek={(t) => setStartTime(clampStart(t - videoDuration))}
+            />
+            <div className="absolute top-0 bottom-0 left-1/2 w-px bg-indigo-400 pointer-events-none"></div>
+            <div className="absolute top-0 right-0 bg-indigo-500 text-[9px] px-1 text-white font-bold pointer-events-none">OUT</div>
+         </div>
+      </div>
+      )}
+
+      <MixControls mix={track.mix} onChange={(mix) => onUpdate(track.id, { mix })} />
+
+      {/* Music fades at the edges of the cut */}
+      <div className="grid grid-cols-2 gap-3 mb-3 text-[11px] text-slate-400">
+        <label className="flex flex-col gap-1">
+          <span className="flex justify-between">
+            Fade in <span className="font-mono text-slate-300">{track.fadeIn.toFixed(1)}s</span>
+          </span>
+          <input
+            type="range" min={0} max={MAX_FADE_SEC} step={0.1}
+            value={track.fadeIn}
+            onChange={(e) => onUpdate(track.id, { fadeIn: parseFloat(e.target.value) })}
+            className="accent-indigo-500"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="flex justify-between">
+            Fade out <span className="font-mono text-slate-300">{track.fadeOut.toFixed(1)}s</span>
+          </span>
+          <input
+            type="range" min={0} max={MAX_FADE_SEC} step={0.1}
+            value={track.fadeOut}
+            onChange={(e) => onUpdate(track.id, { fadeOut: parseFloat(e.target.value) })}
+            className="accent-indigo-500"
+          />
+        </label>
+      </div>
+
+      {/* Video, music and mix together, as the render will come out */}
+      {showPreview && (
+        <TrackPreviewPlayer
+          video={video}
+          profile={profile}
+          musicUrl={track.url}
+          arrangement={arrangement}
+          mix={track.mix}
+          segment={previewSegment}
+        />
+      )}
+
       <div className="flex items-center justify-between text-xs text-slate-400">
         <div className="flex items-center gap-2">
            <button 
-              onClick={togglePlay}
+              onClick={() => setShowPreview(!showPreview)}
               className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300 font-medium"
             >
-              {isPlaying ? (
+              {showPreview ? (
                   <>
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
-                        <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                        <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
                     </svg>
-                    Pause Preview
+                    Fechar prévia
                   </>
               ) : (
                   <>
                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
                         <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-1.832a1 1 0 000-1.664l-3-1.832z" clipRule="evenodd" />
                      </svg>
-                     Play Segment
+                     Prévia do corte
                   </>
               )}
            </button>
-           <audio 
-             ref={audioRef} 
-             src={track.url} 
-             onEnded={() => setIsPlaying(false)}
-             onTimeUpdate={(e) => {
-                 // Force loop logic for preview if needed, or just stop at end of segment
-                 if(e.currentTarget.currentTime >= endTime) {
-                     e.currentTarget.pause();
-                     setIsPlaying(false);
-                     e.currentTarget.currentTime = track.startTime;
-                 }
-             }}
-           />
         </div>
         <div>
-            Trecho: <span className="text-white font-mono">{formatTime(track.startTime)} - {formatTime(endTime)}</span>
+            {short ? (
+                <>Arranjo: <span className="text-white font-mono">{placed.length} {placed.length === 1 ? 'trecho' : 'trechos'} · {formatTime(videoDuration)}</span></>
+            ) : (
+                <>Trecho: <span className="text-white font-mono">{formatTime(track.startTime)} - {formatTime(endTime)}</span></>
+            )}
         </div>
       </div>
     </div>
@@ -0,0 +1,126 @@
+import React from 'react';
+import { AudioFillMode, AudioFillSettings, AudioRange } from '../types';
+import { MAX_CROSSFADE_SEC, MAX_FADE_SEC } from '../constants';
+import { MIN_PIECE_SEC } from '../services/audioArrangement';
+
+interface FillControlsProps {
+  fill: AudioFillSettings;
+  trackDuration: number;
+  onChange: (fill: AudioFillSettings) => void;
+  snap?: (time: number) => number; // beat snapping for the loop point
+}
+
+const MODE_LABELS: Record<AudioFillMode, string> = {
+  loop: 'Loop',
+  stitch: 'Emendar trechos',
+  pad: 'Completar com silêncio'
+};
+
+const formatTime = (time: number) => {
+  const mins = Math.floor(time / 60);
+  const secs = (time % 60).toFixed(1).padStart(4, '0');
+  return `${mins}:${secs}`;
+};
+
+export const FillControls: React.FC<FillControlsProps> = ({ fill, trackDuration, onChange, snap }) => {
+  const set = (updates: Partial<AudioFillSettings>) => onChange({ ...fill, ...updates });
+
+  const updateSegment = (index: number, updates: Partial<AudioRange>) => {
+    set({ segments: fill.segments.map((s, i) => i === index ? { ...s, ...updates } : s) });
+  };
+
+  const addSegment = () => {
+    // Continue from the end of the last range, wrapping to the start when it reached the end
+    const last = fill.segments[fill.segments.length - 1];
+    const start = last && last.end < trackDuration - MIN_PIECE_SEC ? last.end : 0;
+    set({ segments: [...fill.segments, { start, end: Math.min(trackDuration, start + 10) }] });
+  };
+
+  const slider = (label: string, value: number, max: number, onInput: (v: number) => void, suffix = 's') => (
+    <label className="flex flex-col gap-1">
+      <span className="flex justify-between">
+        {label} <span className="font-mono text-slate-300">{value.toFixed(1)}{suffix}</span>
+      </span>
+      <input
+        type="range" min={0} max={max} step={0.1}
+        value={value}
+        onChange={(e) => onInput(parseFloat(e.target.value))}
+        className="accent-violet-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="mb-3 p-3 bg-violet-500/5 rounded-lg border border-violet-500/30 text-[11px] text-slate-400">
+      <div className="flex flex-wrap items-center gap-1.5 mb-3">
+        <span className="text-violet-300 mr-1">Áudio mais curto que o vídeo:</span>
+        {(Object.keys(MODE_LABELS) as AudioFillMode[]).map(mode => (
+          <button
+            key={mode}
+            onClick={() => set({ mode })}
+            className={`px-2 py-0.5 rounded-full border transition-colors ${
+              fill.mode === mode
+                ? 'bg-violet-600 border-violet-500 text-white'
+                : 'bg-slate-900 border-slate-700 text-slate-300 hover:border-violet-500'
+            }`}
+          >
+            {MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+
+      {fill.mode === 'loop' && (
+        <div className="grid grid-cols-2 gap-3">
+          {slider('Ponto de loop', fill.loopStart, Math.max(0, trackDuration - MIN_PIECE_SEC), (v) => set({ loopStart: snap ? snap(v) : v }))}
+          {slider('Crossfade', fill.crossfade, MAX_CROSSFADE_SEC, (v) => set({ crossfade: v }))}
+        </div>
+      )}
+
+      {fill.mode === 'stitch' && (
+        <div className="flex flex-col gap-2">
+          {fill.segments.map((segment, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="w-5 text-slate-500">{i + 1}.</span>
+              <input
+                type="number" min={0} max={trackDuration} step={0.1}
+                value={Number(segment.start.toFixed(1))}
+                onChange={(e) => updateSegment(i, { start: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-20 bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 font-mono"
+              />
+              <span>até</span>
+              <input
+                type="number" min={0} max={trackDuration} step={0.1}
+                value={Number(segment.end.toFixed(1))}
+                onChange={(e) => updateSegment(i, { end: Math.min(trackDuration, parseFloat(e.target.value) || 0) })}
+                className="w-20 bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 font-mono"
+              />
+              <span className="text-slate-500 font-mono">{formatTime(Math.max(0, segment.end - segment.start))}</span>
+              <button
+                onClick={() => set({ segments: fill.segments.filter((_, j) => j !== i) })}
+                className="ml-auto text-slate-500 hover:text-red-400"
+                title="Remover trecho"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <button
+              onClick={addSegment}
+              className="justify-self-start text-violet-300 hover:text-violet-200"
+            >
+              + Adicionar trecho
+            </button>
+            {slider('Crossfade', fill.crossfade, MAX_CROSSFADE_SEC, (v) => set({ crossfade: v }))}
+          </div>
+        </div>
+      )}
+
+      {fill.mode === 'pad' && (
+        <div className="grid grid-cols-2 gap-3">
+          {slider('Fade antes do silêncio', fill.padFade, MAX_FADE_SEC, (v) => set({ padFade: v }))}
+        </div>
+      )}
+    </div>
+  );
+};
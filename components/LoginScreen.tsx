@@ -1,22 +1,33 @@
 import React, { useState } from 'react';
-import { APP_PASSWORD } from '../constants';
+import { AuthProvider, AuthSession, InvalidCredentialsError } from '../services/auth';
 
 interface LoginScreenProps {
-  onLoginSuccess: () => void;
+  provider: AuthProvider;
+  onLoginSuccess: (session: AuthSession) => void;
 }
 
-export const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
+export const LoginScreen: React.FC<LoginScreenProps> = ({ provider, onLoginSuccess }) => {
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (password === APP_PASSWORD) {
-      onLoginSuccess();
-    } else {
-      setError('Senha incorreta. Tente novamente.');
-      setPassword('');
-    }
+    setError('');
+    setSubmitting(true);
+    provider.login(username, password)
+      .then(onLoginSuccess)
+      .catch(err => {
+        if (err instanceof InvalidCredentialsError) {
+          setError('Usuário ou senha incorretos. Tente novamente.');
+          setPassword('');
+        } else {
+          console.error("Login failed:", err);
+          setError('Não foi possível conectar ao servidor de login. Tente novamente.');
+        }
+      })
+      .finally(() => setSubmitting(false));
   };
 
   return (
@@ -29,10 +40,28 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
             </svg>
           </div>
           <h1 className="text-2xl font-bold text-white">Acesso Restrito</h1>
-          <p className="text-slate-400 mt-2">Digite a senha para acessar o Studio.</p>
+          <p className="text-slate-400 mt-2">Entre com sua conta para acessar o Studio.</p>
+          {provider.local && (
+            <p className="text-xs text-amber-400 mt-2">Modo de desenvolvimento: login local, sem servidor.</p>
+          )}
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label htmlFor="username" className="block text-sm font-medium text-slate-300 mb-2">
+              Usuário
+            </label>
+            <input
+              type="text"
+              id="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full px-4 py-3 bg-slate-900 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+              autoComplete="username"
+              autoFocus
+            />
+          </div>
+
           <div>
             <label htmlFor="password" className="block text-sm font-medium text-slate-300 mb-2">
               Senha
@@ -44,7 +73,7 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
               onChange={(e) => setPassword(e.target.value)}
               className="w-full px-4 py-3 bg-slate-900 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
               placeholder="••••••••"
-              autoFocus
+              autoComplete="current-password"
             />
           </div>
 
@@ -56,9 +85,10 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess }) => {
 
           <button
             type="submit"
-            className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-semibold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] shadow-lg shadow-blue-500/20"
+            disabled={submitting || !username || !password}
+            className="w-full disabled:opacity-50 disabled:hover:scale-100 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-semibold py-3 px-4 rounded-lg transition-all transform hover:scale-[1.02] shadow-lg shadow-blue-500/20"
           >
-            Entrar
+            {submitting ? 'Entrando...' : 'Entrar'}
           </button>
         </form>
       </div>
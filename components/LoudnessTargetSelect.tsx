@@ -0,0 +1,27 @@
+import React from 'react';
+import { LOUDNESS_TARGETS } from '../constants';
+
+interface LoudnessTargetSelectProps {
+  value: number | null;
+  onChange: (value: number | null) => void;
+}
+
+// Project-wide loudness normalization applied by the render to every output
+export const LoudnessTargetSelect: React.FC<LoudnessTargetSelectProps> = ({ value, onChange }) => {
+  return (
+    <label className="flex items-center justify-between gap-2 text-xs text-slate-400">
+      <span title="Normalização EBU R128 em duas passadas, aplicada na renderização">Volume final</span>
+      <select
+        value={value === null ? '' : value.toString()}
+        onChange={(e) => onChange(e.target.value === '' ? null : parseFloat(e.target.value))}
+        className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:border-blue-500"
+      >
+        {LOUDNESS_TARGETS.map(target => (
+          <option key={target.label} value={target.value === null ? '' : target.value.toString()}>
+            {target.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
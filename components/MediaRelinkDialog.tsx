@@ -0,0 +1,88 @@
+import React from 'react';
+import { ImportedProject, missingMedia } from '../services/projectFile';
+
+interface MediaRelinkDialogProps {
+  imported: ImportedProject;
+  busy: boolean;
+  onAddFiles: (files: File[]) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 ** 2 ? `${(bytes / 1024 ** 2).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+/**
+ * Shown when a manifest is imported without its media: the user picks the
+ * local files and they are matched to the project's videos and audios.
+ */
+export const MediaRelinkDialog: React.FC<MediaRelinkDialogProps> = ({ imported, busy, onAddFiles, onConfirm, onCancel }) => {
+  const { manifest, media } = imported;
+  const missingCount = missingMedia(imported).length;
+  const items = [
+    ...manifest.videos.map(v => ({ id: v.id, icon: '🎬', ref: v.media })),
+    ...manifest.tracks.map(t => ({ id: t.id, icon: '🎵', ref: t.media }))
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/90 backdrop-blur-sm flex items-center justify-center z-50 px-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl shadow-xl p-6 max-w-lg w-full">
+        <h2 className="text-xl font-bold text-white mb-1">Localizar arquivos</h2>
+        <p className="text-sm text-slate-400 mb-4">
+          "{manifest.name}" foi exportado sem mídia. Selecione os arquivos originais; eles são reconhecidos pelo conteúdo ou pelo nome.
+        </p>
+
+        <ul className="space-y-1.5 max-h-64 overflow-y-auto mb-4">
+          {items.map(item => {
+            const file = media.get(item.id);
+            return (
+              <li key={item.id} className="flex items-center gap-2 text-sm">
+                <span className={file ? 'text-emerald-400' : 'text-slate-600'}>{file ? '✓' : '○'}</span>
+                <span className="truncate text-slate-200" title={item.ref.name}>{item.icon} {item.ref.name}</span>
+                <span className="ml-auto text-xs text-slate-500 flex-shrink-0">{formatSize(item.ref.size)}</span>
+              </li>
+            );
+          })}
+        </ul>
+
+        <label className={`block text-center text-sm font-medium py-2 rounded-lg border border-dashed transition-colors ${
+          busy ? 'border-slate-700 text-slate-500' : 'border-slate-600 text-slate-300 hover:border-blue-500 hover:text-white cursor-pointer'
+        }`}>
+          {busy ? 'Verificando arquivos...' : 'Selecionar arquivos'}
+          <input
+            type="file"
+            className="hidden"
+            multiple
+            disabled={busy}
+            accept="video/*,audio/*"
+            onChange={(e) => {
+              if (e.target.files) onAddFiles(Array.from(e.target.files));
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        {missingCount > 0 && media.size > 0 && (
+          <p className="text-xs text-amber-400 mt-3">
+            {missingCount} {missingCount === 1 ? 'arquivo não encontrado fica' : 'arquivos não encontrados ficam'} de fora do projeto.
+          </p>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onCancel} className="text-sm text-slate-400 hover:text-white px-3">Cancelar</button>
+          <button
+            onClick={onConfirm}
+            disabled={busy || media.size === 0}
+            className={`text-sm font-medium py-2 px-5 rounded-lg transition-all ${
+              busy || media.size === 0
+                ? 'bg-slate-700 text-slate-500 cursor-not-allowed'
+                : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/20'
+            }`}
+          >
+            Abrir projeto
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
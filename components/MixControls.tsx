@@ -0,0 +1,62 @@
+import React from 'react';
+import { AudioMixSettings } from '../types';
+
+interface MixControlsProps {
+  mix: AudioMixSettings;
+  onChange: (mix: AudioMixSettings) => void;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const MixControls: React.FC<MixControlsProps> = ({ mix, onChange }) => {
+  const set = (updates: Partial<AudioMixSettings>) => onChange({ ...mix, ...updates });
+  const hasOriginal = mix.originalGain > 0;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3 p-3 bg-slate-900/60 rounded-lg border border-slate-700/60 text-[11px] text-slate-400">
+      <label className="flex flex-col gap-1">
+        <span className="flex justify-between">
+          Áudio original <span className="font-mono text-slate-300">{hasOriginal ? percent(mix.originalGain) : 'removido'}</span>
+        </span>
+        <input
+          type="range" min={0} max={1} step={0.05}
+          value={mix.originalGain}
+          onChange={(e) => set({ originalGain: parseFloat(e.target.value) })}
+          className="accent-emerald-500"
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="flex justify-between">
+          Música <span className="font-mono text-slate-300">{percent(mix.musicGain)}</span>
+        </span>
+        <input
+          type="range" min={0} max={1} step={0.05}
+          value={mix.musicGain}
+          onChange={(e) => set({ musicGain: parseFloat(e.target.value) })}
+          className="accent-indigo-500"
+        />
+      </label>
+      <div className={`flex flex-col gap-1 ${hasOriginal ? '' : 'opacity-40 pointer-events-none'}`}>
+        <label className="flex items-center justify-between cursor-pointer" title="Abaixa a música enquanto há fala no áudio original">
+          <span className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={mix.ducking}
+              onChange={(e) => set({ ducking: e.target.checked })}
+              className="accent-amber-500"
+            />
+            Ducking na fala
+          </span>
+          <span className="font-mono text-slate-300">{mix.ducking ? percent(mix.duckingAmount) : 'off'}</span>
+        </label>
+        <input
+          type="range" min={0} max={1} step={0.05}
+          value={mix.duckingAmount}
+          disabled={!mix.ducking}
+          onChange={(e) => set({ duckingAmount: parseFloat(e.target.value) })}
+          className="accent-amber-500"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { OutputProfile } from '../types';
+
+interface OutputProfileSelectorProps {
+  profiles: OutputProfile[];
+  selectedIds: string[];
+  onToggle: (id: string) => void;
+}
+
+const formatResolution = (profile: OutputProfile) =>
+  profile.width && profile.height ? `${profile.width}×${profile.height}` : 'resolução original';
+
+export const OutputProfileSelector: React.FC<OutputProfileSelectorProps> = ({ profiles, selectedIds, onToggle }) => {
+  return (
+    <div className="flex flex-wrap justify-center gap-1.5">
+      {profiles.map(profile => {
+        const isActive = selectedIds.includes(profile.id);
+        return (
+          <button
+            key={profile.id}
+            onClick={() => onToggle(profile.id)}
+            title={`${formatResolution(profile)} · CRF ${profile.videoCrf} · ${profile.audioBitrate}`}
+            className={`text-[11px] px-2.5 py-1 rounded-full border transition-colors ${
+              isActive
+                ? 'bg-blue-600 border-blue-500 text-white'
+                : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white hover:border-slate-500'
+            }`}
+          >
+            {isActive && '✓ '}{profile.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
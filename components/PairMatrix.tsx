@@ -0,0 +1,115 @@
+import React from 'react';
+import { AudioTrack, UploadedVideo } from '../types';
+import { getPair, RenderPairs } from '../services/renderPairs';
+import { trimmedDuration } from '../services/videoTrim';
+
+interface PairMatrixProps {
+  videos: UploadedVideo[];
+  tracks: AudioTrack[];
+  pairs: RenderPairs;
+  activeVideoId: string | null;
+  onSelectVideo: (videoId: string) => void;
+  onSetEnabled: (cells: { videoId: string; trackId: string }[], enabled: boolean) => void;
+}
+
+const formatTime = (time: number) => {
+  const mins = Math.floor(time / 60);
+  const secs = Math.floor(time % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Videos × tracks grid: ticks which combinations get rendered and shows
+ * where the music starts under each video. Selecting a row makes that
+ * video the one previewed and edited by the track cards.
+ */
+export const PairMatrix: React.FC<PairMatrixProps> = ({ videos, tracks, pairs, activeVideoId, onSelectVideo, onSetEnabled }) => {
+  if (videos.length === 0 || tracks.length === 0) return null;
+
+  const cellsOf = (videoIds: string[], trackIds: string[]) =>
+    videoIds.flatMap(videoId => trackIds.map(trackId => ({ videoId, trackId })));
+  const allEnabled = (cells: { videoId: string; trackId: string }[]) =>
+    cells.every(({ videoId, trackId }) => getPair(pairs, videoId, trackId).enabled);
+  // Header buttons flip a whole row or column: on unless everything is already on
+  const toggleAll = (cells: { videoId: string; trackId: string }[]) =>
+    onSetEnabled(cells, !allEnabled(cells));
+
+  const trackIds = tracks.map(t => t.id);
+  const videoIds = videos.map(v => v.id);
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-slate-700">
+            <th className="text-left font-medium text-slate-400 px-3 py-2">
+              <button onClick={() => toggleAll(cellsOf(videoIds, trackIds))} className="hover:text-white">
+                Vídeo \ Áudio
+              </button>
+            </th>
+            {tracks.map(track => (
+              <th key={track.id} className="font-medium text-slate-300 px-2 py-2 max-w-[8rem]">
+                <button
+                  onClick={() => toggleAll(cellsOf(videoIds, [track.id]))}
+                  className="block w-full truncate hover:text-white"
+                  title={track.name}
+                >
+                  {track.name}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {videos.map(video => {
+            const isActive = video.id === activeVideoId;
+            return (
+              <tr key={video.id} className={`border-b border-slate-700/50 last:border-0 ${isActive ? 'bg-blue-500/10' : ''}`}>
+                <td className="px-3 py-2 max-w-[10rem]">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      className="accent-blue-500"
+                      checked={allEnabled(cellsOf([video.id], trackIds))}
+                      onChange={() => toggleAll(cellsOf([video.id], trackIds))}
+                      title="Marcar/desmarcar a linha"
+                    />
+                    <button
+                      onClick={() => onSelectVideo(video.id)}
+                      className={`truncate text-left ${isActive ? 'text-blue-300 font-medium' : 'text-slate-300 hover:text-white'}`}
+                      title={`${video.file.name} · editar os áudios com este vídeo`}
+                    >
+                      {video.file.name}
+                    </button>
+                    <span className="text-slate-500 font-mono flex-shrink-0">{formatTime(trimmedDuration(video))}</span>
+                  </div>
+                </td>
+                {tracks.map(track => {
+                  const pair = getPair(pairs, video.id, track.id);
+                  return (
+                    <td key={track.id} className="px-2 py-2 text-center">
+                      <label className="inline-flex items-center gap-1.5 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="accent-blue-500"
+                          checked={pair.enabled}
+                          onChange={(e) => onSetEnabled([{ videoId: video.id, trackId: track.id }], e.target.checked)}
+                        />
+                        <span
+                          className={`font-mono ${pair.enabled ? 'text-slate-300' : 'text-slate-600'}`}
+                          title="Início da música neste vídeo"
+                        >
+                          {formatTime(pair.startTime ?? track.startTime)}
+                        </span>
+                      </label>
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
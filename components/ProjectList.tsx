@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { ProjectSummary } from '../types';
+
+interface ProjectListProps {
+  projects: ProjectSummary[] | null; // null while loading
+  storage: { usage: number; quota: number } | null;
+  error: string | null;
+  onCreate: () => void;
+  onOpen: (id: string) => void;
+  onDuplicate: (project: ProjectSummary) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (project: ProjectSummary) => void;
+  onImport: (file: File) => void; // project file (.json) or bundle (.zip)
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : `${Math.round(bytes / 1024 ** 2)} MB`;
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const plural = (count: number, one: string, many: string) => `${count} ${count === 1 ? one : many}`;
+
+/** Startup screen: projects saved in this browser, reopened where they were left. */
+export const ProjectList: React.FC<ProjectListProps> = ({ projects, storage, error, onCreate, onOpen, onDuplicate, onRename, onDelete, onImport }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  return (
+    <div className="w-full max-w-3xl mx-auto animate-fade-in">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-white">Projetos</h2>
+        <div className="flex items-center gap-2">
+          <label className="bg-slate-700 hover:bg-slate-600 text-white text-sm font-medium py-2 px-4 rounded-lg cursor-pointer transition-colors">
+            Importar
+            <input
+              type="file"
+              className="hidden"
+              accept=".json,.zip,application/json,application/zip"
+              onChange={(e) => {
+                if (e.target.files && e.target.files[0]) onImport(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            onClick={onCreate}
+            className="bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium py-2 px-4 rounded-lg transition-all shadow-lg shadow-blue-500/20 active:scale-95"
+          >
+            + Novo projeto
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {projects === null ? (
+        <p className="text-slate-500 text-sm text-center py-16">Carregando projetos...</p>
+      ) : projects.length === 0 ? (
+        <div className="text-center py-16 border-2 border-dashed border-slate-700 rounded-2xl bg-slate-800/30">
+          <p className="text-slate-400 font-medium">Nenhum projeto salvo.</p>
+          <p className="text-slate-500 text-sm mt-1">Os projetos são salvos neste navegador automaticamente.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {projects.map(project => (
+            <div
+              key={project.id}
+              className="bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 flex items-center gap-4 hover:border-slate-500 transition-colors"
+            >
+              <div className="flex-grow min-w-0">
+                {editingId === project.id ? (
+                  <input
+                    autoFocus
+                    defaultValue={project.name}
+                    className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500"
+                    onBlur={(e) => {
+                      const name = e.target.value.trim();
+                      if (name && name !== project.name) onRename(project.id, name);
+                      setEditingId(null);
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                  />
+                ) : (
+                  <button
+                    onClick={() => onOpen(project.id)}
+                    onDoubleClick={() => setEditingId(project.id)}
+                    className="block w-full text-left text-white font-medium truncate hover:text-blue-300"
+                    title="Abrir (duplo clique para renomear)"
+                  >
+                    {project.name}
+                  </button>
+                )}
+                <div className="text-xs text-slate-500 mt-0.5">
+                  {plural(project.videoCount, 'vídeo', 'vídeos')} · {plural(project.trackCount, 'áudio', 'áudios')}
+                  {project.resultCount > 0 && ` · ${plural(project.resultCount, 'resultado', 'resultados')}`}
+                  {' · '}editado em {formatDate(project.updatedAt)}
+                </div>
+              </div>
+              <div className="flex items-center gap-3 text-xs flex-shrink-0">
+                <button onClick={() => onOpen(project.id)} className="text-blue-400 hover:text-blue-300">Abrir</button>
+                <button onClick={() => setEditingId(project.id)} className="text-slate-400 hover:text-white">Renomear</button>
+                <button onClick={() => onDuplicate(project)} className="text-slate-400 hover:text-white">Duplicar</button>
+                <button onClick={() => onDelete(project)} className="text-slate-400 hover:text-red-400">Excluir</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {storage && (
+        <p className="text-xs text-slate-500 mt-6 text-center">
+          Armazenamento usado: {formatBytes(storage.usage)} de {formatBytes(storage.quota)}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React from 'react';
+import { RenderJobStatus, RenderQueueJob } from '../types';
+import { countJobs } from '../services/renderQueue';
+
+interface RenderQueuePanelProps {
+  queue: RenderQueueJob[];
+  labelOf: (job: RenderQueueJob) => string;
+  running: boolean;          // a job is being rendered right now
+  message?: string;          // what the running job is doing
+  jobRatio: number;          // 0..1 within the running job
+  overallRatio: number;      // 0..1 across the queue, weighted by duration
+  speed?: number | null;
+  etaSeconds?: number | null;
+  onResume: () => void;
+  onCancel: (id: string) => void;
+  onCancelAll: () => void;
+  onRetry: (id: string) => void;
+  onRetryFailed: () => void;
+  onRemove: (id: string) => void;
+}
+
+const STATUS_LABELS: Record<RenderJobStatus, string> = {
+  queued: 'Na fila',
+  running: 'Renderizando',
+  done: 'Pronto',
+  failed: 'Falhou',
+  cancelled: 'Cancelado'
+};
+
+const STATUS_STYLES: Record<RenderJobStatus, string> = {
+  queued: 'bg-slate-700 text-slate-300',
+  running: 'bg-blue-500/20 text-blue-300',
+  done: 'bg-emerald-500/20 text-emerald-300',
+  failed: 'bg-red-500/20 text-red-300',
+  cancelled: 'bg-slate-700 text-slate-400'
+};
+
+const formatEta = (seconds: number) => {
+  const rounded = Math.max(0, Math.round(seconds));
+  const mins = Math.floor(rounded / 60);
+  const secs = rounded % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const linkButton = 'text-xs text-slate-400 hover:text-white transition-colors';
+
+/**
+ * Status of every output of the render. Jobs fail, get cancelled and are
+ * retried one by one; finished ones are already in the gallery below.
+ */
+export const RenderQueuePanel: React.FC<RenderQueuePanelProps> = ({
+  queue,
+  labelOf,
+  running,
+  message,
+  jobRatio,
+  overallRatio,
+  speed,
+  etaSeconds,
+  onResume,
+  onCancel,
+  onCancelAll,
+  onRetry,
+  onRetryFailed,
+  onRemove
+}) => {
+  const done = countJobs(queue, 'done');
+  const failed = countJobs(queue, 'failed');
+  const queued = countJobs(queue, 'queued');
+  const active = queue.length - countJobs(queue, 'cancelled');
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div>
+          <h3 className="font-semibold text-white">Fila de renderização</h3>
+          <p className="text-xs text-slate-400">
+            {done} de {active} {active === 1 ? 'pronto' : 'prontos'}
+            {failed > 0 && <span className="text-red-400"> · {failed} {failed === 1 ? 'falhou' : 'falharam'}</span>}
+            {!running && queued > 0 && ' · pausada'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {running ? (
+            <button onClick={onCancelAll} className="text-sm text-slate-300 hover:text-white bg-slate-700 hover:bg-red-600/80 px-4 py-1.5 rounded-full transition-colors">
+              Cancelar tudo
+            </button>
+          ) : queued > 0 ? (
+            <button onClick={onResume} className="text-sm bg-blue-600 hover:bg-blue-500 text-white font-medium px-4 py-1.5 rounded-full transition-colors">
+              Continuar renderização
+            </button>
+          ) : failed > 0 && (
+            <button onClick={onRetryFailed} className="text-sm bg-slate-700 hover:bg-slate-600 text-white px-4 py-1.5 rounded-full transition-colors">
+              Tentar as falhas novamente
+            </button>
+          )}
+        </div>
+      </div>
+
+      {running && (
+        <div className="mb-3">
+          <div className="bg-slate-900 rounded-full h-2 overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${overallRatio * 100}%` }}></div>
+          </div>
+          <div className="mt-1 flex items-center justify-between text-xs font-mono">
+            <span className="text-blue-400">{(overallRatio * 100).toFixed(0)}%</span>
+            <span className="text-slate-500">
+              {speed ? `${speed.toFixed(2)}x` : '--'}
+              {' · '}
+              {etaSeconds != null ? `faltam ${formatEta(etaSeconds)}` : 'calculando...'}
+            </span>
+          </div>
+        </div>
+      )}
+
+      <ul className="divide-y divide-slate-700/60 max-h-80 overflow-y-auto">
+        {queue.map(job => (
+          <li key={job.id} className="py-2">
+            <div className="flex items-center gap-3">
+              <span className={`flex-shrink-0 text-[11px] font-medium px-2 py-0.5 rounded-full ${STATUS_STYLES[job.status]}`}>
+                {STATUS_LABELS[job.status]}
+                {job.status === 'running' && ` ${(jobRatio * 100).toFixed(0)}%`}
+              </span>
+              <span className="flex-grow min-w-0 text-sm text-slate-200 truncate" title={labelOf(job)}>
+                {labelOf(job)}
+              </span>
+              <span className="flex-shrink-0 flex gap-3">
+                {job.status === 'running' && (
+                  <button onClick={() => onCancel(job.id)} className={linkButton}>Cancelar</button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button onClick={() => onRetry(job.id)} className={linkButton}>Tentar novamente</button>
+                )}
+                {job.status !== 'running' && job.status !== 'done' && (
+                  <button onClick={() => onRemove(job.id)} className={linkButton}>Remover</button>
+                )}
+              </span>
+            </div>
+            {job.status === 'running' && message && (
+              <p className="mt-1 text-xs text-slate-500">{message}</p>
+            )}
+            {job.notice && job.status !== 'failed' && (
+              <p className="mt-1 text-xs text-amber-300">{job.notice}</p>
+            )}
+            {job.status === 'failed' && (
+              <div className="mt-1">
+                <p className="text-xs text-red-300">
+                  {job.error}{job.attempts > 1 && ` (${job.attempts} tentativas)`}
+                </p>
+                {job.logTail.length > 0 && (
+                  <details className="mt-1">
+                    <summary className="text-xs text-slate-500 cursor-pointer hover:text-slate-300">Log do FFmpeg</summary>
+                    <pre className="mt-1 p-2 bg-slate-900 rounded text-[11px] text-slate-400 whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+                      {job.logTail.join('\n')}
+                    </pre>
+                  </details>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
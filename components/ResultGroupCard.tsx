@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ProcessedResult } from '../types';
+import { getOutputProfile } from '../constants';
+import { canShareFiles, shareFiles } from '../services/deviceSave';
+
+interface ResultGroupCardProps {
+  trackName: string;
+  videoName?: string; // shown when the project has several videos
+  results: ProcessedResult[]; // one per output profile, same video and audio track
+  filenames: Map<string, string>; // by result id, see services/outputNames.ts
+}
+
+const ShareIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+    </svg>
+);
+
+const DownloadIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+    </svg>
+);
+
+export const ResultGroupCard: React.FC<ResultGroupCardProps> = ({ trackName, videoName, results, filenames }) => {
+  const [activeId, setActiveId] = useState(results[0]?.id);
+  const [shareFailed, setShareFailed] = useState(false);
+  const result = results.find(r => r.id === activeId) || results[0];
+  if (!result) return null;
+  const profile = getOutputProfile(result.profileId);
+  const entry = { name: filenames.get(result.id) ?? 'video.mp4', blob: result.blob };
+  // Mobile browsers hand the file to the share sheet (camera roll, WhatsApp...);
+  // a download link there often just opens the video in a new tab
+  const shareable = canShareFiles([entry]) && !shareFailed;
+
+  // Closing the sheet resolves as 'cancelled'. On a real failure the user
+  // gesture is gone, so a download can't start by itself; the link replaces the button
+  const handleShare = () => {
+    shareFiles([entry], trackName).catch(() => setShareFailed(true));
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-2xl overflow-hidden shadow-xl border border-slate-700 flex flex-col hover:border-slate-500 transition-colors">
+        {/* One tab per exported format */}
+        {results.length > 1 && (
+            <div className="flex overflow-x-auto border-b border-slate-700 bg-slate-900/50">
+                {results.map(r => (
+                    <button
+                        key={r.id}
+                        onClick={() => setActiveId(r.id)}
+                        className={`flex-shrink-0 px-3 py-2 text-[11px] font-medium border-b-2 transition-colors ${
+                            r.id === result.id
+                              ? 'border-blue-500 text-white'
+                              : 'border-transparent text-slate-400 hover:text-white'
+                        }`}
+                    >
+                        {getOutputProfile(r.profileId).name}
+                    </button>
+                ))}
+            </div>
+        )}
+
+        {/* Uses the result video directly as it now contains the audio */}
+        <div className="bg-black" style={{ aspectRatio: `${profile.aspectRatio}` }}>
+            <video 
+                key={result.id}
+                src={result.videoUrl} 
+                controls 
+                className="w-full h-full object-cover" 
+            />
+        </div>
+
+        <div className="p-4 flex flex-col gap-3 bg-slate-800">
+            <h3 className="font-medium text-white truncate text-sm" title={trackName}>
+                🎵 {trackName}
+            </h3>
+            {videoName && (
+                <div className="text-[11px] text-slate-400 truncate -mt-2" title={videoName}>
+                    🎬 {videoName}
+                </div>
+            )}
+            <div className="text-[10px] text-slate-400 mb-1">
+                {profile.name} · Arquivo pronto com áudio mixado.
+            </div>
+            {shareable ? (
+                <button
+                    onClick={handleShare}
+                    className="w-full bg-slate-700 hover:bg-green-600 text-white text-sm font-medium py-2.5 rounded-lg transition-all flex items-center justify-center gap-2 group"
+                >
+                    <ShareIcon />
+                    <span>Salvar na Galeria</span>
+                </button>
+            ) : (
+                <a 
+                    href={result.videoUrl} 
+                    download={entry.name}
+                    className="w-full bg-slate-700 hover:bg-green-600 text-white text-sm font-medium py-2.5 rounded-lg transition-all flex items-center justify-center gap-2 group"
+                >
+                    <DownloadIcon /> 
+                    <span>Baixar vídeo</span>
+                </a>
+            )}
+            {shareFailed && (
+                <div className="text-[11px] text-red-400 -mt-1">
+                    Não foi possível abrir o compartilhamento. Baixe o vídeo pelo botão acima.
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioArrangement, AudioMixSettings, OutputProfile, UploadedVideo } from '../types';
+import { interpolateReframe } from '../services/reframe';
+import { placePieces, sourcePositionAt } from '../services/audioArrangement';
+import { MixPreview, PreviewSegment } from '../services/mixPreview';
+import { followClock, PreviewClock } from '../services/previewClock';
+
+interface TrackPreviewPlayerProps {
+  video: UploadedVideo;
+  profile: OutputProfile;
+  musicUrl: string;
+  arrangement: AudioArrangement;
+  mix: AudioMixSettings;
+  segment: PreviewSegment; // output length and music fades
+}
+
+// Drift tolerance for sources whose header has no frame rate
+const DEFAULT_FRAME_RATE = 30;
+const PREVIEW_HEIGHT_PX = 360;
+
+const formatTime = (time: number) => {
+  const mins = Math.floor(time / 60);
+  const secs = Math.floor(time % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * The final cut before rendering: the trimmed video framed by the profile,
+ * with the arranged music and the original sound mixed live. Picture and
+ * music follow one PreviewClock, so they stay within a frame of each other.
+ */
+export const TrackPreviewPlayer: React.FC<TrackPreviewPlayerProps> = ({ video, profile, musicUrl, arrangement, mix, segment }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const backgroundRef = useRef<HTMLVideoElement>(null);
+  const musicRef = useRef<HTMLAudioElement>(null);
+  const mixPreviewRef = useRef<MixPreview | null>(null);
+  const clockRef = useRef(new PreviewClock(segment.duration));
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const isBlur = profile.fitMode === 'blur';
+  const frameDuration = 1 / (video.probe?.frameRate ?? DEFAULT_FRAME_RATE);
+
+  // The sync loop reads the latest edits without restarting
+  const placed = placePieces(arrangement);
+  const latestRef = useRef({ placed, arrangement, trimStart: video.trimStart });
+  latestRef.current = { placed, arrangement, trimStart: video.trimStart };
+
+  const musicTarget = (at: number) => {
+    const { placed, arrangement } = latestRef.current;
+    return sourcePositionAt(placed, arrangement.crossfade, at);
+  };
+
+  const pictures = () => [videoRef.current, backgroundRef.current].filter((v): v is HTMLVideoElement => !!v);
+
+  // Puts every element where the clock is, for seeks and edits while paused
+  const alignAll = () => {
+    const at = clockRef.current.position();
+    pictures().forEach(v => { v.currentTime = latestRef.current.trimStart + at; });
+    const music = musicTarget(at);
+    if (musicRef.current && music) musicRef.current.currentTime = music.time;
+  };
+
+  const pause = () => {
+    clockRef.current.pause();
+    [...pictures(), musicRef.current].forEach(el => {
+      if (!el) return;
+      el.pause();
+      el.playbackRate = 1;
+    });
+    mixPreviewRef.current?.stop();
+    setPlaying(false);
+  };
+
+  const play = async () => {
+    const v = videoRef.current;
+    const music = musicRef.current;
+    if (!v || !music) return;
+    // Created on the first play, the AudioContext needs a user gesture. The
+    // visible video carries the original sound, so it is never out of step with the picture.
+    if (!mixPreviewRef.current) {
+      mixPreviewRef.current = new MixPreview(music, v, mix, segment, () => clockRef.current.position());
+    }
+    mixPreviewRef.current.update(mix, segment);
+
+    const clock = clockRef.current;
+    if (clock.ended()) clock.seek(0);
+    alignAll();
+    try {
+      await mixPreviewRef.current.start();
+      await Promise.all([
+        ...pictures().map(el => el.play()),
+        musicTarget(clock.position()) ? music.play() : Promise.resolve()
+      ]);
+    } catch (err) {
+      console.error("Preview playback failed:", err);
+      pause();
+      return;
+    }
+    // Elements start with some latency; the clock starts where the picture is
+    clock.seek(v.currentTime - latestRef.current.trimStart);
+    clock.play();
+    setPlaying(true);
+  };
+
+  const seek = (at: number) => {
+    clockRef.current.seek(at);
+    alignAll();
+    setPosition(clockRef.current.position());
+  };
+
+  // Every element follows the clock while playing
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    const tick = () => {
+      const clock = clockRef.current;
+      if (clock.ended()) {
+        pause();
+        seek(0);
+        return;
+      }
+      const at = clock.position();
+      pictures().forEach(v => followClock(v, latestRef.current.trimStart + at, frameDuration));
+
+      const music = musicRef.current;
+      const target = musicTarget(at);
+      if (music && !target) {
+        // Past the end of a padded arrangement: silence
+        if (!music.paused) music.pause();
+      } else if (music && target) {
+        if (music.paused) music.play().catch(() => {});
+        followClock(music, target.time, frameDuration);
+      }
+      setPosition(at);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, frameDuration]);
+
+  // Animate the crop window every frame so the preview matches the exported pan
+  useEffect(() => {
+    const v = videoRef.current;
+    if (!v) return;
+    let frame = 0;
+    const apply = () => {
+      const reframe = profile.fitMode === 'crop' ? interpolateReframe(video.reframe, v.currentTime) : { x: 0.5, y: 0.5 };
+      v.style.objectPosition = `${reframe.x * 100}% ${reframe.y * 100}%`;
+      frame = requestAnimationFrame(apply);
+    };
+    apply();
+    return () => cancelAnimationFrame(frame);
+  }, [video.reframe, profile.fitMode]);
+
+  useEffect(() => {
+    clockRef.current.setDuration(segment.duration);
+    mixPreviewRef.current?.update(mix, segment);
+  }, [mix, segment.duration, segment.fadeIn, segment.fadeOut, segment.musicEnd, segment.padFade]);
+
+  // A new IN point or trim shows up right away, even when paused
+  useEffect(() => {
+    if (!clockRef.current.playing) alignAll();
+  }, [video.trimStart, placed.map(p => p.sourceStart).join()]);
+
+  useEffect(() => {
+    return () => {
+      [videoRef.current, backgroundRef.current, musicRef.current].forEach(el => el?.pause());
+      mixPreviewRef.current?.close();
+    };
+  }, []);
+
+  const duration = segment.duration;
+  const percent = (time: number) => `${Math.min(100, Math.max(0, (time / Math.max(0.001, duration)) * 100))}%`;
+  const fadeIn = Math.min(segment.fadeIn, duration / 2);
+  const fadeOut = Math.min(segment.fadeOut, duration / 2);
+
+  return (
+    <div className="mb-3">
+      <div
+        className="relative bg-black rounded-lg overflow-hidden border border-slate-700 mx-auto cursor-pointer"
+        style={{ aspectRatio: `${profile.aspectRatio}`, width: `min(100%, ${PREVIEW_HEIGHT_PX * profile.aspectRatio}px)` }}
+        onClick={() => (playing ? pause() : play())}
+      >
+        {isBlur && (
+          <video
+            ref={backgroundRef}
+            src={video.url}
+            className="absolute inset-0 w-full h-full object-cover blur-xl scale-110 opacity-70"
+            muted
+            playsInline
+            preload="auto"
+            aria-hidden
+          />
+        )}
+        {/* Not muted: its sound is routed through the mix preview */}
+        <video
+          ref={videoRef}
+          src={video.url}
+          className={`relative w-full h-full ${profile.fitMode === 'crop' ? 'object-cover' : 'object-contain'}`}
+          playsInline
+          preload="auto"
+          onLoadedMetadata={alignAll}
+        />
+        {!playing && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+            <span className="bg-white/20 backdrop-blur-md rounded-full p-3">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-white pl-0.5" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-1.832a1 1 0 000-1.664l-3-1.832z" clipRule="evenodd" />
+              </svg>
+            </span>
+          </div>
+        )}
+      </div>
+      <audio ref={musicRef} src={musicUrl} preload="auto" />
+
+      {/* Output timeline with the music fades and the silence after a padded arrangement */}
+      <div className="mt-2 flex items-center gap-2 text-[11px] font-mono text-slate-400">
+        <span>{formatTime(position)}</span>
+        <div className="relative flex-grow h-3 bg-slate-900 rounded overflow-hidden">
+          {fadeIn > 0 && (
+            <div className="absolute inset-y-0 left-0 bg-gradient-to-r from-slate-900 to-indigo-500/30" style={{ width: percent(fadeIn) }}></div>
+          )}
+          <div className="absolute inset-y-0 bg-indigo-500/30" style={{ left: percent(fadeIn), right: `calc(100% - ${percent(Math.min(segment.musicEnd, duration - fadeOut))})` }}></div>
+          {fadeOut > 0 && segment.musicEnd >= duration && (
+            <div className="absolute inset-y-0 right-0 bg-gradient-to-l from-slate-900 to-indigo-500/30" style={{ width: percent(fadeOut) }}></div>
+          )}
+          <div className="absolute inset-y-0 w-px bg-white pointer-events-none" style={{ left: percent(position) }}></div>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.01}
+            value={position}
+            onChange={(e) => seek(parseFloat(e.target.value))}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            aria-label="Posição da prévia"
+          />
+        </div>
+        <span>{formatTime(duration)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { OutputProfile, ReframeKeyframe, UploadedVideo } from '../types';
+import { interpolateReframe, upsertKeyframe } from '../services/reframe';
+
+interface VideoPreviewProps {
+  video: UploadedVideo;
+  profile: OutputProfile;
+  onReframeChange?: (keyframes: ReframeKeyframe[]) => void;
+  /** Whether at least one track keeps the source audio in its mix */
+  originalAudioKept?: boolean;
+}
+
+const FIT_LABELS: Record<OutputProfile['fitMode'], string> = {
+  crop: 'Auto-Cropped',
+  letterbox: 'Letterbox',
+  blur: 'Fundo desfocado'
+};
+
+interface DragState {
+  pointerX: number;
+  pointerY: number;
+  x: number;
+  y: number;
+  time: number;
+}
+
+/**
+ * Muted preview of the source framed the way the selected output profile
+ * will render it (object-cover = crop, object-contain = letterbox/blur pad).
+ * In crop mode the image can be dragged to reframe; every drag stores a
+ * keyframe at the current playback time.
+ */
+export const VideoPreview: React.FC<VideoPreviewProps> = ({ video, profile, onReframeChange, originalAudioKept = false }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const backgroundRef = useRef<HTMLVideoElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const isBlur = profile.fitMode === 'blur';
+  const sourceAspect = video.width / video.height;
+  const differsFromProfile = Math.abs(sourceAspect - profile.aspectRatio) > 0.01;
+  const canReframe = profile.fitMode === 'crop' && differsFromProfile && !!onReframeChange;
+  const keyframes = video.reframe;
+
+  // Keep the blurred background copy in step with the main video
+  useEffect(() => {
+    const v = videoRef.current;
+    const bg = backgroundRef.current;
+    if (!v || !bg) return;
+
+    const sync = () => {
+      if (Math.abs(bg.currentTime - v.currentTime) > 0.2) bg.currentTime = v.currentTime;
+      if (v.paused && !bg.paused) bg.pause();
+      if (!v.paused && bg.paused) bg.play().catch(() => {});
+    };
+
+    const events = ['play', 'pause', 'seeked', 'timeupdate'];
+    events.forEach(name => v.addEventListener(name, sync));
+    return () => events.forEach(name => v.removeEventListener(name, sync));
+  }, [isBlur]);
+
+  // Animate the crop window every frame so the preview matches the exported pan
+  useEffect(() => {
+    const v = videoRef.current;
+    if (!v) return;
+
+    let frame = 0;
+    const apply = () => {
+      const position = profile.fitMode === 'crop' ? interpolateReframe(keyframes, v.currentTime) : { x: 0.5, y: 0.5 };
+      v.style.objectPosition = `${position.x * 100}% ${position.y * 100}%`;
+      frame = requestAnimationFrame(apply);
+    };
+    apply();
+    return () => cancelAnimationFrame(frame);
+  }, [keyframes, profile.fitMode]);
+
+  // Overflow of the object-cover image in CSS pixels, per axis
+  const getOverflow = () => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    const scale = Math.max(rect.width / video.width, rect.height / video.height);
+    return {
+      x: video.width * scale - rect.width,
+      y: video.height * scale - rect.height
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const v = videoRef.current;
+    if (!v) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const position = interpolateReframe(keyframes, v.currentTime);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, time: v.currentTime, ...position };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !onReframeChange) return;
+    const overflow = getOverflow();
+    // Dragging the image right reveals more of the left side
+    const x = overflow.x > 0 ? drag.x - (e.clientX - drag.pointerX) / overflow.x : drag.x;
+    const y = overflow.y > 0 ? drag.y - (e.clientY - drag.pointerY) / overflow.y : drag.y;
+    onReframeChange(upsertKeyframe(keyframes, { time: drag.time, x, y }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const seekTo = (time: number) => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+  };
+
+  // Playback and the keyframe timeline cover only the trimmed part
+  const trimLength = Math.max(0.001, video.trimEnd - video.trimStart);
+  const timelinePercent = (time: number) => `${((time - video.trimStart) / trimLength) * 100}%`;
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const el = e.currentTarget;
+    if (el.currentTime >= video.trimEnd || el.currentTime < video.trimStart - 0.05) {
+      el.currentTime = video.trimStart;
+    }
+    setCurrentTime(el.currentTime);
+  };
+
+  return (
+    <>
+    <div
+        ref={containerRef}
+        className="bg-black rounded-2xl overflow-hidden shadow-2xl border border-slate-700 relative group mx-auto"
+        style={{ aspectRatio: `${profile.aspectRatio}` }}
+    >
+         {isBlur && (
+            <video
+                ref={backgroundRef}
+                src={video.url}
+                className="absolute inset-0 w-full h-full object-cover blur-xl scale-110 opacity-70"
+                muted
+                playsInline
+                aria-hidden
+            />
+         )}
+         <video 
+            ref={videoRef}
+            src={video.url} 
+            className={`relative w-full h-full ${profile.fitMode === 'crop' ? 'object-cover' : 'object-contain'}`} 
+            controls 
+            muted // Always muted in preview
+            onLoadedMetadata={(e) => { e.currentTarget.currentTime = video.trimStart; }}
+            onTimeUpdate={handleTimeUpdate}
+         />
+         {!originalAudioKept && (
+            <div className="absolute top-2 left-2 bg-red-500/80 backdrop-blur-md px-2 py-1 rounded-md text-[10px] text-white border border-white/10 flex items-center gap-1">
+               <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor">
+                 <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM12.293 7.293a1 1 0 011.414 0L15 8.586l1.293-1.293a1 1 0 111.414 1.414L16.414 10l1.293 1.293a1 1 0 01-1.414 1.414L15 11.414l-1.293 1.293a1 1 0 01-1.414-1.414L13.586 10l-1.293-1.293a1 1 0 010-1.414z" clipRule="evenodd" />
+               </svg>
+               Som original removido
+            </div>
+         )}
+         
+         {/* Fit guide when the source has to be adapted to the profile aspect */}
+         {differsFromProfile && (
+            <div className="absolute inset-0 pointer-events-none border-2 border-yellow-500/20 z-10">
+                <div className="absolute bottom-2 right-2 text-[9px] text-yellow-500/50">
+                    {FIT_LABELS[profile.fitMode]}{keyframes.length > 0 && profile.fitMode === 'crop' ? ' · Reenquadrado' : ''}
+                </div>
+            </div>
+         )}
+
+         {/* Drag surface, leaves the native controls at the bottom usable */}
+         {canReframe && isEditing && (
+            <div
+                className="absolute inset-x-0 top-0 bottom-12 z-20 cursor-grab active:cursor-grabbing border-2 border-dashed border-yellow-400/70 touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                <div className="absolute top-2 right-2 bg-yellow-500/90 text-black text-[10px] font-semibold px-2 py-0.5 rounded">
+                    Arraste para reenquadrar
+                </div>
+            </div>
+         )}
+    </div>
+
+    {canReframe && (
+        <div className="mt-3">
+            <div className="flex items-center justify-between mb-1.5">
+                <button
+                    onClick={() => setIsEditing(!isEditing)}
+                    className={`text-[11px] px-2.5 py-1 rounded-full border transition-colors ${
+                        isEditing ? 'bg-yellow-500 border-yellow-400 text-black' : 'bg-slate-800 border-slate-700 text-slate-300 hover:border-slate-500'
+                    }`}
+                >
+                    {isEditing ? 'Concluir' : 'Reenquadrar'}
+                </button>
+                {keyframes.length > 0 && (
+                    <button
+                        onClick={() => onReframeChange!([])}
+                        className="text-[11px] text-slate-400 hover:text-red-400"
+                    >
+                        Centralizar de novo
+                    </button>
+                )}
+            </div>
+            {/* Keyframe timeline: click the bar to seek, click a keyframe to remove it */}
+            <div
+                className="relative h-4 bg-slate-800 rounded cursor-pointer"
+                onClick={(e) => {
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    seekTo(video.trimStart + ((e.clientX - rect.left) / rect.width) * trimLength);
+                }}
+            >
+                <div
+                    className="absolute top-0 bottom-0 w-px bg-white/60 pointer-events-none"
+                    style={{ left: timelinePercent(currentTime) }}
+                ></div>
+                {keyframes.filter(k => k.time >= video.trimStart && k.time <= video.trimEnd).map(k => (
+                    <button
+                        key={k.time}
+                        title={`${k.time.toFixed(1)}s · clique para remover`}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onReframeChange!(keyframes.filter(other => other !== k));
+                        }}
+                        className="absolute top-1/2 w-2.5 h-2.5 -ml-[5px] -mt-[5px] rotate-45 bg-yellow-400 hover:bg-red-400"
+                        style={{ left: timelinePercent(k.time) }}
+                    ></button>
+                ))}
+            </div>
+        </div>
+    )}
+    </>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UploadedVideo } from '../types';
+import { MIN_TRIM_DURATION_SEC } from '../constants';
+import { extractThumbnails, isOnKeyframe, snapToKeyframe, trimmedDuration } from '../services/videoTrim';
+
+interface VideoTrimmerProps {
+  video: UploadedVideo;
+  minDuration: number | null;
+  onChange: (trim: { trimStart: number; trimEnd: number }) => void;
+  onContinue: () => void;
+}
+
+const THUMBNAIL_COUNT = 10;
+const THUMBNAIL_HEIGHT = 64;
+// Too many ticks turn into a solid bar, skip drawing them past this
+const MAX_KEYFRAME_TICKS = 400;
+
+type Handle = 'in' | 'out';
+
+const formatTime = (time: number) => {
+  const mins = Math.floor(time / 60);
+  const secs = (time % 60).toFixed(1).padStart(4, '0');
+  return `${mins}:${secs}`;
+};
+
+/**
+ * Trim step: IN/OUT handles over a strip of frame thumbnails. The IN point
+ * can snap to keyframes so the render copies the video stream untouched.
+ */
+export const VideoTrimmer: React.FC<VideoTrimmerProps> = ({ video, minDuration, onChange, onContinue }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const stripRef = useRef<HTMLDivElement>(null);
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [currentTime, setCurrentTime] = useState(video.trimStart);
+  const [dragging, setDragging] = useState<Handle | null>(null);
+  const [snapKeyframes, setSnapKeyframes] = useState(!!video.keyframes && video.keyframes.length > 1);
+
+  const minLength = Math.min(video.duration, Math.max(MIN_TRIM_DURATION_SEC, minDuration ?? 0));
+  const length = trimmedDuration(video);
+  const onKeyframe = isOnKeyframe(video.trimStart, video.keyframes);
+
+  useEffect(() => {
+    let cancelled = false;
+    setThumbnails([]);
+    extractThumbnails(video.url, video.duration, THUMBNAIL_COUNT, THUMBNAIL_HEIGHT, (index, dataUrl) => {
+      if (cancelled) return;
+      setThumbnails(prev => {
+        const next = [...prev];
+        next[index] = dataUrl;
+        return next;
+      });
+    }).catch(err => console.error("Thumbnail extraction failed:", err));
+    return () => { cancelled = true; };
+  }, [video.url, video.duration]);
+
+  // Keep playback inside the trimmed range
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const el = e.currentTarget;
+    if (!dragging && (el.currentTime >= video.trimEnd || el.currentTime < video.trimStart - 0.05)) {
+      el.currentTime = video.trimStart;
+    }
+    setCurrentTime(el.currentTime);
+  };
+
+  const timeAt = (clientX: number) => {
+    const rect = stripRef.current!.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return ratio * video.duration;
+  };
+
+  const moveHandle = (handle: Handle, time: number) => {
+    if (handle === 'in') {
+      let trimStart = Math.min(Math.max(0, time), video.trimEnd - minLength);
+      if (snapKeyframes) {
+        const snapped = snapToKeyframe(trimStart, video.keyframes);
+        if (snapped <= video.trimEnd - minLength) trimStart = snapped;
+      }
+      onChange({ trimStart: Math.max(0, trimStart), trimEnd: video.trimEnd });
+      if (videoRef.current) videoRef.current.currentTime = trimStart;
+    } else {
+      const trimEnd = Math.max(Math.min(video.duration, time), video.trimStart + minLength);
+      onChange({ trimStart: video.trimStart, trimEnd: Math.min(video.duration, trimEnd) });
+      if (videoRef.current) videoRef.current.currentTime = Math.min(video.duration, trimEnd);
+    }
+  };
+
+  const startDrag = (handle: Handle) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    videoRef.current?.pause();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setDragging(handle);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging) moveHandle(dragging, timeAt(e.clientX));
+  };
+
+  const endDrag = () => setDragging(null);
+
+  const seekTo = (e: React.MouseEvent) => {
+    if (!videoRef.current) return;
+    const time = Math.min(video.trimEnd, Math.max(video.trimStart, timeAt(e.clientX)));
+    videoRef.current.currentTime = time;
+  };
+
+  const percent = (t: number) => `${(t / video.duration) * 100}%`;
+  const keyframeTicks = video.keyframes && video.keyframes.length <= MAX_KEYFRAME_TICKS ? video.keyframes : [];
+
+  return (
+    <div className="w-full max-w-3xl mx-auto animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-white">Cortar Vídeo</h2>
+        <div className="text-sm text-slate-400">
+          Trecho: <span className="text-white font-mono">{formatTime(video.trimStart)} - {formatTime(video.trimEnd)}</span>
+          <span className="ml-2 text-blue-400 font-mono">({formatTime(length)})</span>
+        </div>
+      </div>
+
+      <div className="bg-black rounded-xl overflow-hidden border border-slate-700 mb-4 flex justify-center">
+        <video
+          ref={videoRef}
+          src={video.url}
+          className="max-h-[50vh]"
+          controls
+          playsInline
+          onLoadedMetadata={(e) => { e.currentTarget.currentTime = video.trimStart; }}
+          onTimeUpdate={handleTimeUpdate}
+        />
+      </div>
+
+      {/* Thumbnail strip with the trim handles */}
+      <div
+        ref={stripRef}
+        className="relative h-16 bg-slate-900 rounded-lg overflow-hidden border border-slate-700 select-none touch-none cursor-pointer"
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onClick={seekTo}
+      >
+        <div className="absolute inset-0 flex">
+          {Array.from({ length: THUMBNAIL_COUNT }, (_, i) => (
+            <div key={i} className="flex-1 h-full bg-slate-800 border-r border-slate-900 overflow-hidden">
+              {thumbnails[i] && <img src={thumbnails[i]} alt="" className="w-full h-full object-cover" draggable={false} />}
+            </div>
+          ))}
+        </div>
+
+        {keyframeTicks.map(k => (
+          <div key={k} className="absolute bottom-0 w-px h-2 bg-yellow-400/70 pointer-events-none" style={{ left: percent(k) }} />
+        ))}
+
+        {/* Dimmed parts outside the trim */}
+        <div className="absolute top-0 bottom-0 left-0 bg-black/60 pointer-events-none" style={{ width: percent(video.trimStart) }} />
+        <div className="absolute top-0 bottom-0 right-0 bg-black/60 pointer-events-none" style={{ left: percent(video.trimEnd) }} />
+        <div
+          className="absolute top-0 bottom-0 border-y-2 border-blue-500 pointer-events-none"
+          style={{ left: percent(video.trimStart), width: percent(length) }}
+        />
+
+        {/* Playhead */}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none" style={{ left: percent(currentTime) }} />
+
+        {(['in', 'out'] as Handle[]).map(handle => (
+          <div
+            key={handle}
+            onPointerDown={startDrag(handle)}
+            onClick={(e) => e.stopPropagation()}
+            className={`absolute top-0 bottom-0 w-3 -ml-1.5 bg-blue-500 hover:bg-blue-400 cursor-ew-resize flex items-center justify-center ${
+              handle === 'in' ? 'rounded-l-md' : 'rounded-r-md'
+            }`}
+            style={{ left: percent(handle === 'in' ? video.trimStart : video.trimEnd) }}
+            title={handle === 'in' ? 'Início (IN)' : 'Fim (OUT)'}
+          >
+            <div className="w-0.5 h-6 bg-white/80 rounded" />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mt-3 text-xs">
+        <div className="flex items-center gap-3">
+          <label className={`flex items-center gap-1.5 select-none ${video.keyframes ? 'cursor-pointer text-slate-300' : 'text-slate-600'}`}>
+            <input
+              type="checkbox"
+              className="accent-yellow-500"
+              checked={snapKeyframes}
+              disabled={!video.keyframes}
+              onChange={(e) => setSnapKeyframes(e.target.checked)}
+            />
+            Encaixar início em keyframes
+          </label>
+          <span className={onKeyframe ? 'text-emerald-400' : 'text-amber-400'}>
+            {onKeyframe
+              ? 'Corte em keyframe: sem recompressão quando o formato permitir'
+              : 'Início fora de keyframe: o vídeo será recodificado'}
+          </span>
+        </div>
+        <button
+          onClick={() => onChange({ trimStart: 0, trimEnd: video.duration })}
+          className="text-slate-400 hover:text-white"
+        >
+          Usar vídeo inteiro
+        </button>
+      </div>
+
+      <div className="flex justify-end mt-6">
+        <button
+          onClick={onContinue}
+          className="bg-blue-600 hover:bg-blue-500 text-white font-medium py-2 px-6 rounded-lg transition-all shadow-lg shadow-blue-500/20 active:scale-95"
+        >
+          Continuar
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,66 +1,134 @@
 import React, { useRef, useState } from 'react';
 import { UploadedVideo } from '../types';
-import { MIN_VIDEO_DURATION_SEC } from '../constants';
+import { MIN_VIDEO_DURATION_OPTIONS } from '../constants';
+import { readKeyframeTimes } from '../services/mp4Keyframes';
+import { codecLabel, displaySize, probeVideoFile, reviewProbe } from '../services/mediaProbe';
 
 interface VideoUploaderProps {
+  minDuration: number | null;
+  onMinDurationChange: (value: number | null) => void;
   onVideoSelected: (video: UploadedVideo) => void;
 }
 
-export const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected }) => {
+// A probed file whose warnings the user still has to acknowledge
+interface PendingVideo {
+  video: UploadedVideo;
+  warnings: string[];
+}
+
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|mov|webm|mkv)$/i;
+
+/** Duration and frame size as the browser decodes them, or null when it can't play the file. */
+const readVideoMetadata = (file: File) => new Promise<{ duration: number; width: number; height: number } | null>(resolve => {
+  const videoElement = document.createElement('video');
+  videoElement.preload = 'metadata';
+  const objectUrl = URL.createObjectURL(file);
+  videoElement.onloadedmetadata = () => {
+    URL.revokeObjectURL(objectUrl);
+    resolve({ duration: videoElement.duration, width: videoElement.videoWidth, height: videoElement.videoHeight });
+  };
+  videoElement.onerror = () => {
+    URL.revokeObjectURL(objectUrl);
+    resolve(null);
+  };
+  videoElement.src = objectUrl;
+});
+
+const formatMinDuration = (value: number | null) =>
+  value === null ? 'Qualquer duração' : value >= 60 ? `Mínimo ${value / 60} min` : `Mínimo ${value}s`;
+
+export const VideoUploader: React.FC<VideoUploaderProps> = ({ minDuration, onMinDurationChange, onVideoSelected }) => {
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [pending, setPending] = useState<PendingVideo[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const validateAndLoadVideo = (file: File) => {
-    setError(null);
+  const loadVideo = async (file: File) => {
+    // Basic MIME type check; Matroska files often come without one
+    if (!file.type.startsWith('video/') && !VIDEO_EXTENSIONS.test(file.name)) {
+      setError(`${file.name}: envie um arquivo de vídeo válido.`);
+      return;
+    }
 
-    // Basic MIME type check
-    if (!file.type.startsWith('video/')) {
-      setError("Por favor, envie um arquivo de vídeo válido.");
+    // Codecs and streams first, so files FFmpeg can't render never join the project
+    const probe = await probeVideoFile(file);
+    const review = reviewProbe(probe);
+    if (review.error) {
+      setError(`${file.name}: ${review.error}`);
       return;
     }
 
-    const videoElement = document.createElement('video');
-    videoElement.preload = 'metadata';
-    const objectUrl = URL.createObjectURL(file);
-
-    videoElement.onloadedmetadata = () => {
-      URL.revokeObjectURL(objectUrl);
-      const duration = videoElement.duration;
-      const width = videoElement.videoWidth;
-      const height = videoElement.videoHeight;
-      // const aspectRatio = width / height;
-
-      // 1. Check Duration
-      if (duration < MIN_VIDEO_DURATION_SEC) {
-        setError(`O vídeo deve ter pelo menos 1 minuto. Este vídeo tem ${Math.floor(duration)} segundos.`);
-        return;
-      }
-
-      // 2. Aspect Ratio Logic
-      // We accept 16:9 (Landscape) now, but we will visually crop it to 9:16 in the app.
-      // So no error is thrown for landscape videos.
-
-      onVideoSelected({
-        file,
-        url: URL.createObjectURL(file), // Create a persistent URL for the app session
-        duration,
-        width,
-        height
-      });
-    };
+    const metadata = await readVideoMetadata(file);
+    if (!metadata) {
+      setError(probe?.videoCodec
+        ? `${file.name}: este navegador não reproduz vídeo em ${codecLabel(probe.videoCodec)}. Tente outro navegador ou converta o arquivo para H.264.`
+        : `${file.name}: erro ao ler o arquivo de vídeo.`);
+      return;
+    }
+    // The container's size accounts for rotation and non-square pixels, which browsers don't all apply
+    const { duration } = metadata;
+    const { width, height } = displaySize(probe) ?? metadata;
 
-    videoElement.onerror = () => {
-      setError("Erro ao ler o arquivo de vídeo.");
+    // 1. Check Duration
+    if (minDuration !== null && duration < minDuration) {
+      setError(`${file.name}: o vídeo deve ter pelo menos ${minDuration} segundos. Este vídeo tem ${Math.floor(duration)} segundos.`);
+      return;
+    }
+
+    // 2. Aspect Ratio Logic
+    // We accept 16:9 (Landscape) now, but we will visually crop it to 9:16 in the app.
+    // So no error is thrown for landscape videos.
+
+    // Keyframes let the trimmer cut without re-encoding; unknown for non-MP4 containers
+    const keyframes = await readKeyframeTimes(file);
+
+    const video: UploadedVideo = {
+      id: Math.random().toString(36).substr(2, 9),
+      file,
+      url: URL.createObjectURL(file), // Create a persistent URL for the app session
+      duration,
+      width,
+      height,
+      reframe: [],
+      trimStart: 0,
+      trimEnd: duration,
+      keyframes,
+      probe
     };
+    if (review.warnings.length > 0) {
+      setPending(prev => [...prev, { video, warnings: review.warnings }]);
+    } else {
+      onVideoSelected(video);
+    }
+  };
 
-    videoElement.src = objectUrl;
+  const validateAndLoadVideo = async (file: File) => {
+    try {
+      await loadVideo(file);
+    } catch (err) {
+      // Probing or reading failed outright; report it like any other unreadable file
+      console.error("Video load failed:", err);
+      setError(`${file.name}: erro ao ler o arquivo de vídeo.`);
+    }
+  };
+
+  const acceptPending = () => {
+    pending.forEach(({ video }) => onVideoSelected(video));
+    setPending([]);
+  };
+
+  const discardPending = () => {
+    pending.forEach(({ video }) => URL.revokeObjectURL(video.url));
+    setPending([]);
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      validateAndLoadVideo(e.target.files[0]);
+    if (e.target.files) {
+      setError(null);
+      Array.from(e.target.files).forEach(validateAndLoadVideo);
     }
+    // Reset input so the same file can be added again
+    e.target.value = '';
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -76,8 +144,9 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected })
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      validateAndLoadVideo(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files) {
+      setError(null);
+      Array.from(e.dataTransfer.files).forEach(validateAndLoadVideo);
     }
   };
 
@@ -96,7 +165,8 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected })
           type="file" 
           ref={fileInputRef} 
           className="hidden" 
-          accept="video/*" 
+          accept="video/*,.mkv,.webm,.mov" 
+          multiple
           onChange={handleFileChange}
         />
         
@@ -106,17 +176,61 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onVideoSelected })
           </svg>
         </div>
 
-        <h3 className="text-xl font-bold text-white mb-2">Faça upload do seu Vídeo</h3>
+        <h3 className="text-xl font-bold text-white mb-2">Faça upload dos seus Vídeos</h3>
         <p className="text-slate-400 mb-6">
           Arraste e solte ou clique para selecionar.<br/>
-          <span className="text-xs opacity-70">Mínimo 1 minuto • Auto-crop para 9:16 se horizontal</span>
+          <span className="text-xs opacity-70">{formatMinDuration(minDuration)} • Auto-crop para 9:16 se horizontal</span>
         </p>
 
         <button className="bg-slate-700 hover:bg-slate-600 text-white font-medium py-2 px-6 rounded-full transition-colors">
-          Selecionar Arquivo
+          Selecionar Arquivos
         </button>
       </div>
 
+      <div className="mt-4 flex items-center justify-center gap-2 text-xs text-slate-400">
+        <span>Duração mínima do vídeo:</span>
+        <select
+          value={minDuration === null ? '' : minDuration.toString()}
+          onChange={(e) => onMinDurationChange(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+          className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:border-blue-500"
+        >
+          {MIN_VIDEO_DURATION_OPTIONS.map(option => (
+            <option key={option ?? 'none'} value={option === null ? '' : option.toString()}>
+              {option === null ? 'Sem mínimo' : `${option}s`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {pending.length > 0 && (
+        <div className="mt-4 p-4 bg-amber-500/10 border border-amber-500/20 rounded-xl">
+          <ul className="space-y-2 mb-4">
+            {pending.map(({ video, warnings }) => (
+              <li key={video.id} className="text-sm">
+                <span className="font-medium text-amber-100">{video.file.name}</span>
+                {warnings.map(warning => (
+                  <p key={warning} className="text-amber-200/80 text-xs mt-0.5">{warning}</p>
+                ))}
+              </li>
+            ))}
+          </ul>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={discardPending}
+              className="text-sm text-slate-400 hover:text-white px-4 py-1.5 rounded-full"
+            >
+              Descartar
+            </button>
+            <button
+              onClick={acceptPending}
+              className="text-sm bg-amber-600 hover:bg-amber-500 text-white font-medium px-4 py-1.5 rounded-full transition-colors"
+            >
+              Adicionar mesmo assim
+            </button>
+          </div>
+        </div>
+      )}
+
       {error && (
         <div className="mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3">
           <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-red-500 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
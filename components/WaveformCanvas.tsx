@@ -0,0 +1,88 @@
+import React, { useEffect, useRef } from 'react';
+import { WaveformData, sliceWaveform } from '../services/waveform';
+
+interface WaveformCanvasProps {
+  waveform: WaveformData | null;
+  viewStart: number; // seconds
+  viewEnd: number;   // seconds
+  markers?: number[]; // seconds, drawn as vertical lines
+  className?: string;
+  onSeek?: (time: number) => void;
+}
+
+const PEAK_COLOR = 'rgba(255, 255, 255, 0.35)';
+const RMS_COLOR = 'rgba(129, 140, 248, 0.9)'; // indigo-400
+const MARKER_COLOR = 'rgba(250, 204, 21, 0.9)'; // yellow-400
+const NO_MARKERS: number[] = [];
+
+export const WaveformCanvas: React.FC<WaveformCanvasProps> = ({
+  waveform,
+  viewStart,
+  viewEnd,
+  markers = NO_MARKERS,
+  className = '',
+  onSeek
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const draw = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = Math.max(1, Math.floor(canvas.clientWidth * dpr));
+      const height = Math.max(1, Math.floor(canvas.clientHeight * dpr));
+      if (canvas.width !== width) canvas.width = width;
+      if (canvas.height !== height) canvas.height = height;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.clearRect(0, 0, width, height);
+      if (!waveform || viewEnd <= viewStart) return;
+
+      // One column every 2 device pixels keeps the bars readable
+      const columnWidth = 2 * dpr;
+      const columns = Math.max(1, Math.floor(width / columnWidth));
+      const data = sliceWaveform(waveform, viewStart, viewEnd, columns);
+      const mid = height / 2;
+
+      data.forEach((col, i) => {
+        const x = i * columnWidth;
+        const peakH = Math.max(1, col.peak * height);
+        const rmsH = Math.max(1, col.rms * height);
+        ctx.fillStyle = PEAK_COLOR;
+        ctx.fillRect(x, mid - peakH / 2, columnWidth - dpr, peakH);
+        ctx.fillStyle = RMS_COLOR;
+        ctx.fillRect(x, mid - rmsH / 2, columnWidth - dpr, rmsH);
+      });
+
+      ctx.fillStyle = MARKER_COLOR;
+      markers.forEach(t => {
+        if (t < viewStart || t > viewEnd) return;
+        const x = ((t - viewStart) / (viewEnd - viewStart)) * width;
+        ctx.fillRect(Math.round(x), 0, dpr, height);
+      });
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [waveform, viewStart, viewEnd, markers]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onSeek) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientX - rect.left) / rect.width;
+    onSeek(viewStart + ratio * (viewEnd - viewStart));
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`block w-full h-full ${onSeek ? 'cursor-crosshair' : ''} ${className}`}
+      onClick={handleClick}
+    />
+  );
+};
@@ -1,4 +1,116 @@
-export const APP_PASSWORD = "admin"; // In a real app, this should be env var or backend auth
-export const MIN_VIDEO_DURATION_SEC = 60;
+import { AudioFillSettings, AudioMixSettings, OutputProfile } from './types';
+
+// Minimum source length accepted by the uploader, null = any length
+export const MIN_VIDEO_DURATION_OPTIONS: (number | null)[] = [null, 15, 30, 60];
+export const DEFAULT_MIN_VIDEO_DURATION_SEC: number | null = null;
+// Shortest clip the trimmer allows
+export const MIN_TRIM_DURATION_SEC = 1;
 export const TARGET_ASPECT_RATIO = 9 / 16;
 export const ALLOWED_ASPECT_RATIO_TOLERANCE = 0.05; // allow slight deviation
+
+// Original sound removed, music at full level
+export const DEFAULT_MIX_SETTINGS: AudioMixSettings = {
+  originalGain: 0,
+  musicGain: 1,
+  ducking: false,
+  duckingAmount: 0.5
+};
+
+// Sidechain ducking: level of the (voice band-passed) original audio above
+// which the music gets compressed
+export const DUCKING_THRESHOLD = 0.03;
+
+// Music fades applied to every new track, editable on its card
+export const DEFAULT_FADE_IN_SEC = 0.5;
+export const DEFAULT_FADE_OUT_SEC = 1;
+export const MAX_FADE_SEC = 5;
+
+// Tracks shorter than the video loop from their start by default
+export const DEFAULT_FILL_SETTINGS: AudioFillSettings = {
+  mode: 'loop',
+  loopStart: 0,
+  crossfade: 0.5,
+  segments: [],
+  padFade: 2
+};
+export const MAX_CROSSFADE_SEC = 4;
+
+// Integrated loudness targets (LUFS) for the two-pass loudnorm in the render
+export const LOUDNESS_TARGETS: { label: string; value: number | null }[] = [
+  { label: 'Redes sociais (-14 LUFS)', value: -14 },
+  { label: 'Podcast (-16 LUFS)', value: -16 },
+  { label: 'TV / EBU R128 (-23 LUFS)', value: -23 },
+  { label: 'Sem normalização', value: null }
+];
+
+export const DEFAULT_LOUDNESS_TARGET = -14;
+
+export const OUTPUT_PROFILES: OutputProfile[] = [
+  {
+    // Previous default: downscaled for rendering speed in the browser
+    id: 'reels-720',
+    name: 'Reels/Shorts 720p (rápido)',
+    aspectRatio: TARGET_ASPECT_RATIO,
+    width: 720,
+    height: 1280,
+    fitMode: 'crop',
+    videoPreset: 'ultrafast',
+    videoCrf: 28,
+    audioBitrate: '128k'
+  },
+  {
+    id: 'reels-1080',
+    name: 'Reels/Shorts 9:16',
+    aspectRatio: TARGET_ASPECT_RATIO,
+    width: 1080,
+    height: 1920,
+    fitMode: 'crop',
+    videoPreset: 'veryfast',
+    videoCrf: 23,
+    audioBitrate: '192k'
+  },
+  {
+    id: 'square',
+    name: 'Quadrado 1:1',
+    aspectRatio: 1,
+    width: 1080,
+    height: 1080,
+    fitMode: 'blur',
+    videoPreset: 'veryfast',
+    videoCrf: 23,
+    audioBitrate: '192k'
+  },
+  {
+    id: 'feed-4x5',
+    name: 'Feed 4:5',
+    aspectRatio: 4 / 5,
+    width: 1080,
+    height: 1350,
+    fitMode: 'blur',
+    videoPreset: 'veryfast',
+    videoCrf: 23,
+    audioBitrate: '192k'
+  },
+  {
+    id: 'landscape',
+    name: 'Paisagem 16:9',
+    aspectRatio: 16 / 9,
+    width: null,
+    height: null,
+    fitMode: 'letterbox',
+    videoPreset: 'veryfast',
+    videoCrf: 23,
+    audioBitrate: '192k'
+  }
+];
+
+export const DEFAULT_OUTPUT_PROFILE_ID = 'reels-720';
+
+export const getOutputProfile = (id: string): OutputProfile =>
+  OUTPUT_PROFILES.find(p => p.id === id) || OUTPUT_PROFILES[0];
+
+// Edits are written to IndexedDB once the project has been idle this long
+export const PROJECT_AUTOSAVE_DELAY_MS = 1000;
+
+// Tokens are listed in services/outputNames.ts
+export const DEFAULT_FILENAME_TEMPLATE = '{video}-{track}-{profile}';
@@ -1,6 +1,11 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import '@fontsource/inter/300.css';
+import '@fontsource/inter/400.css';
+import '@fontsource/inter/500.css';
+import '@fontsource/inter/600.css';
+import '@fontsource/inter/700.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -24,6 +29,7 @@ class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasErr
         <div style={{ padding: 20, color: '#ff6b6b', backgroundColor: '#1a1a1a', height: '100vh', display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', textAlign: 'center' }}>
           <h1 style={{ fontSize: '2rem', marginBottom: '1rem' }}>Ops! Algo deu errado.</h1>
           <p>O aplicativo encontrou um erro crítico ao iniciar.</p>
+          <p style={{ marginTop: 8, color: '#94a3b8' }}>Seus projetos ficam salvos neste navegador: depois de recarregar, reabra o projeto na lista.</p>
           <pre style={{ marginTop: 20, padding: 10, background: '#000', borderRadius: 5, maxWidth: '80%', overflow: 'auto' }}>
             {this.state.error?.message}
           </pre>
@@ -41,6 +47,15 @@ class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasErr
   }
 }
 
+// Caches the app shell and FFmpeg core so the merger keeps working offline
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => {
+      console.error("Service worker registration failed:", err);
+    });
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,58 @@
+// Offline support. Built into dist/sw.js by the precache plugin in
+// vite.config.ts, which replaces PRECACHE_MANIFEST with the build's files
+// (app bundle, render worker and the FFmpeg core/wasm).
+
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST;
+const CACHE_NAME = `audiovideo-merger-${PRECACHE_MANIFEST.version}`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE_MANIFEST.files))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop the caches of previous builds
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith('audiovideo-merger-') && key !== CACHE_NAME)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages: network first so deploys show up, cached shell when offline.
+  // Cached responses keep the COOP/COEP headers the multithreaded core needs.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put('/', copy));
+          return response;
+        })
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Hashed build assets never change: cache first
+  event.respondWith(
+    caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+      }
+      return response;
+    }))
+  );
+});
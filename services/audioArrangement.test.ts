@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { AudioFillSettings } from '../types';
+import { DEFAULT_FILL_SETTINGS } from '../constants';
+import { ArrangeableTrack, arrangeTrack, arrangementLength, placePieces } from './audioArrangement';
+
+const track = (duration: number, startTime: number, fill: Partial<AudioFillSettings>): ArrangeableTrack => ({
+  duration,
+  startTime,
+  fill: { ...DEFAULT_FILL_SETTINGS, ...fill }
+});
+
+describe('arrangeTrack', () => {
+  it('cuts a long enough track from its start time', () => {
+    expect(arrangeTrack(track(60, 20, {}), 10)).toEqual({ pieces: [{ sourceStart: 20, duration: 10 }], crossfade: 0, padFade: 0 });
+  });
+
+  it('moves the cut back when the start time leaves too little music', () => {
+    expect(arrangeTrack(track(60, 55, {}), 10).pieces).toEqual([{ sourceStart: 50, duration: 10 }]);
+  });
+
+  describe('loop', () => {
+    const looped = track(10, 2, { mode: 'loop', loopStart: 1, crossfade: 0.5 });
+
+    it('plays from the start time, then repeats from the loop start', () => {
+      const { pieces, crossfade } = arrangeTrack(looped, 30);
+      expect(crossfade).toBe(0.5);
+      expect(pieces).toEqual([
+        { sourceStart: 2, duration: 8 },
+        { sourceStart: 1, duration: 9 },
+        { sourceStart: 1, duration: 9 },
+        { sourceStart: 1, duration: 5.5 }
+      ]);
+    });
+
+    it('fills the output exactly, crossfades included', () => {
+      const arrangement = arrangeTrack(looped, 30);
+      const total = arrangement.pieces.reduce((sum, piece) => sum + piece.duration, 0);
+      expect(total - arrangement.crossfade * (arrangement.pieces.length - 1)).toBe(30);
+      expect(arrangementLength(arrangement)).toBe(30);
+      expect(arrangement.padFade).toBe(0);
+    });
+
+    it('starts each piece a crossfade before the previous one ends', () => {
+      const placed = placePieces(arrangeTrack(looped, 30));
+      expect(placed.map(p => p.outputStart)).toEqual([0, 7.5, 16, 24.5]);
+      const last = placed[placed.length - 1];
+      expect(last.outputStart + last.duration).toBe(30);
+    });
+
+    it('leaves a remainder too short to crossfade into silence', () => {
+      // 0.4s are left after the third piece, less than the two crossfades a piece needs
+      const arrangement = arrangeTrack(looped, 25.4);
+      expect(arrangement.pieces).toHaveLength(3);
+      expect(arrangementLength(arrangement)).toBe(25);
+      expect(arrangement.padFade).toBe(0);
+    });
+
+    it('limits the crossfade to half of the shortest piece', () => {
+      expect(arrangeTrack(track(10, 9, { mode: 'loop', loopStart: 0, crossfade: 4 }), 15).crossfade).toBe(0.5);
+    });
+  });
+
+  describe('stitch', () => {
+    it('plays the ranges in order and trims the last one to the output', () => {
+      const arrangement = arrangeTrack(track(8, 0, { mode: 'stitch', crossfade: 0.5, segments: [{ start: 0, end: 6 }, { start: 2, end: 8 }] }), 10);
+      expect(arrangement.pieces).toEqual([{ sourceStart: 0, duration: 6 }, { sourceStart: 2, duration: 4.5 }]);
+      expect(arrangement.crossfade).toBe(0.5);
+      expect(arrangementLength(arrangement)).toBe(10);
+      expect(arrangement.padFade).toBe(0);
+    });
+
+    it('clamps ranges to the track, drops the ones too short and pads the rest', () => {
+      const stitched = track(20, 0, {
+        mode: 'stitch',
+        crossfade: 1,
+        padFade: 2,
+        segments: [{ start: 2, end: 6 }, { start: 10, end: 12 }, { start: 15, end: 15.3 }, { start: 18, end: 25 }]
+      });
+      const arrangement = arrangeTrack(stitched, 30);
+      expect(arrangement.pieces).toEqual([
+        { sourceStart: 2, duration: 4 },
+        { sourceStart: 10, duration: 2 },
+        { sourceStart: 18, duration: 2 }
+      ]);
+      expect(arrangement.crossfade).toBe(1);
+      expect(arrangementLength(arrangement)).toBe(6);
+      expect(arrangement.padFade).toBe(2);
+    });
+
+    it('falls back to the whole track without usable ranges', () => {
+      const arrangement = arrangeTrack(track(8, 3, { mode: 'stitch', segments: [{ start: 4, end: 4.2 }] }), 10);
+      expect(arrangement.pieces).toEqual([{ sourceStart: 0, duration: 8 }]);
+      expect(arrangement.crossfade).toBe(0);
+    });
+  });
+
+  describe('pad', () => {
+    it('plays from the start time and fades into the silence', () => {
+      const arrangement = arrangeTrack(track(10, 3, { mode: 'pad', padFade: 2, crossfade: 1 }), 15);
+      expect(arrangement).toEqual({ pieces: [{ sourceStart: 3, duration: 7 }], crossfade: 0, padFade: 2 });
+    });
+
+    it('keeps the fade within the music', () => {
+      expect(arrangeTrack(track(10, 9, { mode: 'pad', padFade: 4 }), 15).padFade).toBe(1);
+    });
+  });
+});
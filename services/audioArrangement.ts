@@ -0,0 +1,144 @@
+import { AudioArrangement, AudioFillSettings, AudioPiece, AudioTrack } from '../types';
+
+// Shortest piece worth placing, also the minimum length of a loop
+export const MIN_PIECE_SEC = 0.5;
+
+export type ArrangeableTrack = Pick<AudioTrack, 'duration' | 'startTime' | 'fill'>;
+
+// Where a piece sits on the output timeline
+export interface PlacedPiece extends AudioPiece {
+  outputStart: number;
+}
+
+/** Whether the track needs a fill mode to cover `target` seconds from its start time. */
+export const isShortTrack = (track: Pick<AudioTrack, 'duration'>, target: number) =>
+  track.duration < target;
+
+/** Length of the music once the pieces are joined with their crossfades. */
+export const arrangementLength = (arrangement: AudioArrangement): number => {
+  const { pieces, crossfade } = arrangement;
+  const total = pieces.reduce((sum, piece) => sum + piece.duration, 0);
+  return Math.max(0, total - crossfade * Math.max(0, pieces.length - 1));
+};
+
+/** Output position of every piece; each one starts a crossfade before the previous ends. */
+export const placePieces = (arrangement: AudioArrangement): PlacedPiece[] => {
+  let position = 0;
+  return arrangement.pieces.map((piece, i) => {
+    const outputStart = i === 0 ? 0 : position - arrangement.crossfade;
+    position = outputStart + piece.duration;
+    return { ...piece, outputStart };
+  });
+};
+
+// Crossfades can't be longer than half of the shortest piece they join
+const clampCrossfade = (crossfade: number, pieces: AudioPiece[]) => {
+  if (pieces.length < 2) return 0;
+  const shortest = Math.min(...pieces.map(p => p.duration));
+  return Math.max(0, Math.min(crossfade, shortest / 2));
+};
+
+/**
+ * Trims the pieces so the joined music is at most `target` long. Pieces that
+ * would be too short to carry the crossfade are dropped; the rest is padded.
+ */
+const fitToTarget = (pieces: AudioPiece[], crossfade: number, target: number): AudioPiece[] => {
+  const fitted: AudioPiece[] = [];
+  let length = 0;
+  for (const piece of pieces) {
+    const overlap = fitted.length > 0 ? crossfade : 0;
+    const remaining = target - length + overlap;
+    if (remaining < Math.max(MIN_PIECE_SEC, overlap * 2)) break;
+    const duration = Math.min(piece.duration, remaining);
+    fitted.push({ ...piece, duration });
+    length += duration - overlap;
+    if (length >= target) break;
+  }
+  return fitted;
+};
+
+const loopPieces = (track: ArrangeableTrack, fill: AudioFillSettings, target: number): AudioPiece[] => {
+  const first: AudioPiece = { sourceStart: track.startTime, duration: track.duration - track.startTime };
+  const loopStart = Math.min(Math.max(0, fill.loopStart), track.duration - MIN_PIECE_SEC);
+  const repeat: AudioPiece = { sourceStart: loopStart, duration: track.duration - loopStart };
+  const crossfade = clampCrossfade(fill.crossfade, [first, repeat]);
+
+  const pieces = [first];
+  let length = first.duration;
+  while (length < target) {
+    pieces.push(repeat);
+    length += repeat.duration - crossfade;
+  }
+  return pieces;
+};
+
+const stitchPieces = (track: ArrangeableTrack, fill: AudioFillSettings): AudioPiece[] =>
+  fill.segments
+    .map(range => {
+      const start = Math.min(Math.max(0, range.start), track.duration);
+      const end = Math.min(Math.max(start, range.end), track.duration);
+      return { sourceStart: start, duration: end - start };
+    })
+    .filter(piece => piece.duration >= MIN_PIECE_SEC);
+
+/**
+ * Lays out the music for an output of `target` seconds. Tracks long enough
+ * are a single cut from their start time; shorter ones loop, stitch several
+ * ranges or run out into silence, depending on their fill mode. The result
+ * is never longer than `target`; when shorter, the render pads with silence.
+ */
+export const arrangeTrack = (track: ArrangeableTrack, target: number): AudioArrangement => {
+  if (!isShortTrack(track, target)) {
+    const sourceStart = Math.min(Math.max(0, track.startTime), track.duration - target);
+    return { pieces: [{ sourceStart, duration: target }], crossfade: 0, padFade: 0 };
+  }
+
+  const { fill } = track;
+  let pieces: AudioPiece[];
+  if (fill.mode === 'loop') {
+    pieces = loopPieces(track, fill, target);
+  } else if (fill.mode === 'stitch') {
+    pieces = stitchPieces(track, fill);
+  } else {
+    pieces = [{ sourceStart: track.startTime, duration: track.duration - track.startTime }];
+  }
+  if (pieces.length === 0) {
+    pieces = [{ sourceStart: 0, duration: track.duration }];
+  }
+
+  const crossfade = fill.mode === 'pad' ? 0 : clampCrossfade(fill.crossfade, pieces);
+  const fitted = fitToTarget(pieces, crossfade, target);
+  const arrangement: AudioArrangement = {
+    pieces: fitted,
+    crossfade: clampCrossfade(crossfade, fitted),
+    padFade: 0
+  };
+
+  const length = arrangementLength(arrangement);
+  if (length < target) {
+    // Stitched ranges may not cover the video either, they end like a padded track
+    const padFade = fill.mode === 'loop' ? 0 : fill.padFade;
+    arrangement.padFade = Math.max(0, Math.min(padFade, fitted[fitted.length - 1].duration, length));
+  }
+  return arrangement;
+};
+
+/**
+ * The piece heard at an output position and the matching time in the music
+ * file, for the preview to follow. One element can't play both sides of a
+ * crossfade, so pieces take over halfway through it; null once the music
+ * has run out.
+ */
+export const sourcePositionAt = (
+  placed: PlacedPiece[],
+  crossfade: number,
+  position: number
+): { pieceIndex: number; time: number } | null => {
+  for (let i = placed.length - 1; i >= 0; i--) {
+    const piece = placed[i];
+    if (position < (i === 0 ? 0 : piece.outputStart + crossfade / 2)) continue;
+    if (position >= piece.outputStart + piece.duration) return null;
+    return { pieceIndex: i, time: piece.sourceStart + position - piece.outputStart };
+  }
+  return null;
+};
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeDecodedAudio, releaseDecodedAudio } from './audioDecoder';
+
+// Browser decoding stand-ins: FileReader hands the blob through, and each
+// decodeAudioData call returns a fresh buffer (or fails while `failing` is set)
+let decodes = 0;
+let failing = false;
+
+class FakeFileReader {
+  result: ArrayBuffer | null = null;
+  onload: (() => void) | null = null;
+  onerror: ((err: unknown) => void) | null = null;
+  readAsArrayBuffer() {
+    this.result = new ArrayBuffer(8);
+    queueMicrotask(() => this.onload?.());
+  }
+}
+
+class FakeOfflineAudioContext {
+  async decodeAudioData() {
+    decodes++;
+    if (failing) throw new Error('decode failed');
+    return { sampleRate: 44100, numberOfChannels: 1, id: decodes };
+  }
+}
+
+const file = new Blob(['audio']);
+const idOf = (buffer: AudioBuffer) => (buffer as unknown as { id: number }).id;
+
+beforeEach(() => {
+  decodes = 0;
+  failing = false;
+  vi.stubGlobal('FileReader', FakeFileReader);
+  vi.stubGlobal('OfflineAudioContext', FakeOfflineAudioContext);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  releaseDecodedAudio('track');
+});
+
+describe('analyzeDecodedAudio', () => {
+  it('shares one decode between analyses started together', async () => {
+    const results = await Promise.all([
+      analyzeDecodedAudio('track', file, idOf),
+      analyzeDecodedAudio('track', file, idOf),
+      analyzeDecodedAudio('track', file, idOf)
+    ]);
+    expect(results).toEqual([1, 1, 1]);
+    expect(decodes).toBe(1);
+  });
+
+  it('drops the decoded buffer once the last analysis is done', async () => {
+    await Promise.all([analyzeDecodedAudio('track', file, idOf), analyzeDecodedAudio('track', file, idOf)]);
+    expect(await analyzeDecodedAudio('track', file, idOf)).toBe(2);
+    expect(decodes).toBe(2);
+  });
+
+  it('drops the buffer when an analysis throws', async () => {
+    await expect(analyzeDecodedAudio('track', file, () => { throw new Error('analysis failed'); })).rejects.toThrow('analysis failed');
+    await analyzeDecodedAudio('track', file, idOf);
+    expect(decodes).toBe(2);
+  });
+
+  it('retries a failed decode', async () => {
+    failing = true;
+    await expect(analyzeDecodedAudio('track', file, idOf)).rejects.toThrow('decode failed');
+    failing = false;
+    expect(await analyzeDecodedAudio('track', file, idOf)).toBe(2);
+  });
+
+  it('keeps tracks apart', async () => {
+    const [a, b] = await Promise.all([analyzeDecodedAudio('track', file, idOf), analyzeDecodedAudio('other', file, idOf)]);
+    expect(a).not.toBe(b);
+    expect(decodes).toBe(2);
+  });
+});
@@ -0,0 +1,64 @@
+// Shared decoder for audio tracks. Decoding an MP3 is expensive, so analyses
+// of the same track (waveform, beats, loudness) share one decode, keyed by
+// track id. The PCM is large (~85 MB for 4 minutes of stereo), so it is only
+// kept while an analysis needs it; each analysis caches its own small result.
+
+const DECODE_SAMPLE_RATE = 44100;
+
+interface DecodeEntry {
+  buffer: Promise<AudioBuffer>;
+  users: number; // analyses waiting on or running over the buffer
+}
+
+const decoding = new Map<string, DecodeEntry>();
+
+const readAsArrayBuffer = (file: Blob): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (reader.result instanceof ArrayBuffer) {
+        resolve(reader.result);
+      } else {
+        reject(new Error("Failed to read file"));
+      }
+    };
+    reader.onerror = reject;
+    reader.readAsArrayBuffer(file);
+  });
+};
+
+const decodeAudio = async (file: Blob): Promise<AudioBuffer> => {
+  const data = await readAsArrayBuffer(file);
+  // OfflineAudioContext does not need a user gesture and resamples to a known rate
+  const ctx = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  return ctx.decodeAudioData(data);
+};
+
+/**
+ * Runs an analysis over the decoded track. Analyses started before the last
+ * one finishes share its decode; the buffer is dropped once none is left, so
+ * a failed decode can also be retried.
+ */
+export const analyzeDecodedAudio = async <T>(id: string, file: Blob, analyze: (buffer: AudioBuffer) => T): Promise<T> => {
+  let entry = decoding.get(id);
+  if (!entry) {
+    entry = { buffer: decodeAudio(file), users: 0 };
+    decoding.set(id, entry);
+  }
+  entry.users++;
+  try {
+    return analyze(await entry.buffer);
+  } finally {
+    entry.users--;
+    if (entry.users === 0 && decoding.get(id) === entry) decoding.delete(id);
+  }
+};
+
+/** Forgets a decode in progress; analyses already waiting on it still finish. */
+export const releaseDecodedAudio = (id: string) => {
+  decoding.delete(id);
+};
+
+export const getChannels = (buffer: AudioBuffer): Float32Array[] => {
+  return Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+};
@@ -0,0 +1,158 @@
+// Login behind a provider interface. Production talks to a backend that
+// keeps the session in an HttpOnly cookie, out of reach of page scripts,
+// and is asked whether that session is still valid on every start; the
+// browser only remembers who was logged in, to show it meanwhile. Development
+// builds without a backend configured use a local stand-in, so no password
+// ships in the bundle.
+
+// Profile data only, nothing here grants access
+export interface AuthSession {
+  user: string;
+  expiresAt: number; // epoch ms
+}
+
+export interface AuthProvider {
+  readonly local: boolean; // development stand-in, no real backend
+  login: (username: string, password: string) => Promise<AuthSession>;
+  // The live session, or null when there is none (expired, revoked, logged out)
+  checkSession: () => Promise<AuthSession | null>;
+  logout: () => Promise<void>;
+}
+
+/** Wrong username or password, as opposed to the server being unreachable. */
+export class InvalidCredentialsError extends Error {
+  constructor() {
+    super("Usuário ou senha incorretos.");
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+const SESSION_STORAGE_KEY = 'audiovideo-merger.profile';
+// Earlier versions stored the bearer token under this key
+const LEGACY_SESSION_STORAGE_KEY = 'audiovideo-merger.session';
+const LOCAL_SESSION_MS = 12 * 60 * 60 * 1000;
+
+interface LoginResponse {
+  user?: unknown;
+  expiresAt?: unknown; // epoch ms or ISO 8601
+  expiresIn?: unknown; // seconds
+}
+
+const parseExpiry = (body: LoginResponse): number | null => {
+  if (typeof body.expiresIn === 'number') return Date.now() + body.expiresIn * 1000;
+  if (typeof body.expiresAt === 'number') return body.expiresAt;
+  if (typeof body.expiresAt === 'string') {
+    const time = Date.parse(body.expiresAt);
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
+};
+
+const sessionFrom = (body: LoginResponse, fallbackUser: string): AuthSession => {
+  const expiresAt = parseExpiry(body);
+  if (expiresAt === null) throw new Error("Resposta de login inválida");
+  return { user: typeof body.user === 'string' ? body.user : fallbackUser, expiresAt };
+};
+
+/**
+ * Backend provider:
+ *   POST {baseUrl}/login  {username, password} -> {user?, expiresAt | expiresIn}
+ *     with an HttpOnly session cookie, 401 when rejected
+ *   GET  {baseUrl}/session with the cookie -> {user, expiresAt | expiresIn}, 401 without a live session
+ *   POST {baseUrl}/logout with the cookie, which the backend clears
+ */
+export const createHttpAuthProvider = (baseUrl: string): AuthProvider => {
+  const url = (path: string) => `${baseUrl.replace(/\/+$/, '')}${path}`;
+  return {
+    local: false,
+    login: async (username, password) => {
+      const response = await fetch(url('/login'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ username, password })
+      });
+      if (response.status === 401 || response.status === 403) throw new InvalidCredentialsError();
+      if (!response.ok) throw new Error(`Login falhou (HTTP ${response.status})`);
+
+      return sessionFrom(await response.json() as LoginResponse, username);
+    },
+    checkSession: async () => {
+      const response = await fetch(url('/session'), { credentials: 'include' });
+      if (response.status === 401 || response.status === 403) return null;
+      if (!response.ok) throw new Error(`Verificação da sessão falhou (HTTP ${response.status})`);
+      const body = await response.json() as LoginResponse;
+      if (typeof body.user !== 'string') throw new Error("Resposta de sessão inválida");
+      return sessionFrom(body, body.user);
+    },
+    logout: async () => {
+      await fetch(url('/logout'), { method: 'POST', credentials: 'include' });
+    }
+  };
+};
+
+/** Development stand-in: any username with the configured development password. */
+export const createLocalAuthProvider = (password: string): AuthProvider => ({
+  local: true,
+  login: async (username, attempt) => {
+    if (!username.trim() || attempt !== password) throw new InvalidCredentialsError();
+    return { user: username.trim(), expiresAt: Date.now() + LOCAL_SESSION_MS };
+  },
+  // No server to ask, the remembered session is all there is
+  checkSession: async () => loadSession(),
+  logout: async () => {}
+});
+
+let provider: AuthProvider | null = null;
+
+/**
+ * Provider for this build: the backend at VITE_AUTH_URL. Development builds
+ * without it log in locally with VITE_DEV_PASSWORD (default "dev");
+ * production builds refuse to build without it (see vite.config.ts).
+ */
+export const getAuthProvider = (): AuthProvider => {
+  if (!provider) {
+    const authUrl = import.meta.env.VITE_AUTH_URL;
+    if (authUrl) provider = createHttpAuthProvider(authUrl);
+    else if (import.meta.env.DEV) provider = createLocalAuthProvider(import.meta.env.VITE_DEV_PASSWORD || 'dev');
+    else throw new Error("VITE_AUTH_URL não configurada");
+  }
+  return provider;
+};
+
+const isSession = (value: unknown): value is AuthSession => {
+  const session = value as AuthSession;
+  return typeof value === 'object' && value !== null
+    && typeof session.user === 'string'
+    && typeof session.expiresAt === 'number';
+};
+
+/**
+ * The remembered session, or null when there is none or it has expired.
+ * Only a hint of who was logged in: the provider's checkSession decides.
+ */
+export const loadSession = (): AuthSession | null => {
+  try {
+    localStorage.removeItem(LEGACY_SESSION_STORAGE_KEY);
+    const stored = JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) ?? 'null');
+    if (isSession(stored) && stored.expiresAt > Date.now()) return { user: stored.user, expiresAt: stored.expiresAt };
+  } catch (e) {
+    // Corrupt entry, treated as logged out
+  }
+  clearSession();
+  return null;
+};
+
+export const storeSession = (session: AuthSession) => {
+  // Only the profile, whatever else the provider returned
+  const { user, expiresAt } = session;
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ user, expiresAt }));
+};
+
+export const clearSession = () => {
+  try {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  } catch (e) {
+    // Storage disabled, nothing was stored either
+  }
+};
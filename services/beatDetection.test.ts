@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeBeats, computeOnsetEnvelope, estimateTempo, OnsetEnvelope, snapToGrid, trackBeats } from './beatDetection';
+
+const SAMPLE_RATE = 44100;
+const HOP_DURATION = 256 / SAMPLE_RATE;
+const FIRST_CLICK = 0.1;
+
+/** Mono click track: a 20ms 1 kHz blip per beat, accented on the first beat of each bar. */
+const clickTrack = (bpm: number, seconds: number): { samples: Float32Array; clicks: number[] } => {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const clicks: number[] = [];
+  const clickLength = Math.round(0.02 * SAMPLE_RATE);
+  for (let beat = 0; ; beat++) {
+    const time = FIRST_CLICK + beat * 60 / bpm;
+    const from = Math.round(time * SAMPLE_RATE);
+    if (from + clickLength > samples.length) break;
+    clicks.push(time);
+    const gain = beat % 4 === 0 ? 1 : 0.4;
+    for (let i = 0; i < clickLength; i++) {
+      samples[from + i] = gain * Math.exp(-i / (0.004 * SAMPLE_RATE)) * Math.sin(2 * Math.PI * 1000 * i / SAMPLE_RATE);
+    }
+  }
+  return { samples, clicks };
+};
+
+const envelopeOf = (frames: number, peaks: number[]): OnsetEnvelope => {
+  const strength = new Float32Array(frames);
+  peaks.forEach(frame => { strength[frame] = 1; });
+  return { strength, hopDuration: HOP_DURATION };
+};
+
+describe.each([90, 120, 128])('click track at %i BPM', (bpm) => {
+  const { samples, clicks } = clickTrack(bpm, 12);
+  const envelope = computeOnsetEnvelope(samples, SAMPLE_RATE);
+
+  it('estimates the tempo', () => {
+    expect(estimateTempo(envelope)).toBeCloseTo(bpm, 0);
+  });
+
+  it('places a beat on every click', () => {
+    const { beats } = trackBeats(envelope, estimateTempo(envelope));
+    expect(beats).toHaveLength(clicks.length);
+    beats.forEach((beat, i) => expect(Math.abs(beat - clicks[i])).toBeLessThanOrEqual(HOP_DURATION));
+  });
+
+  it('puts the downbeats on the accented clicks', () => {
+    const analysis = analyzeBeats([samples], SAMPLE_RATE);
+    const accented = clicks.filter((_, i) => i % 4 === 0);
+    expect(analysis.downbeats).toHaveLength(accented.length);
+    analysis.downbeats.forEach((downbeat, i) => expect(Math.abs(downbeat - accented[i])).toBeLessThanOrEqual(HOP_DURATION));
+  });
+
+  it('snaps a cut point to the nearest beat', () => {
+    const { beats } = trackBeats(envelope, bpm);
+    const period = 60 / bpm;
+    expect(snapToGrid(beats[5] + period * 0.3, beats)).toBe(beats[5]);
+    expect(snapToGrid(beats[5] + period * 0.7, beats)).toBe(beats[6]);
+  });
+});
+
+describe('estimateTempo on short tracks', () => {
+  it('returns a finite tempo when the peak is the last lag the envelope can score', () => {
+    // Only lag 99 correlates, and 99 is both the longest lag and one frame short of the end
+    const bpm = estimateTempo(envelopeOf(100, [0, 99]));
+    expect(Number.isFinite(bpm)).toBe(true);
+    expect(bpm).toBeCloseTo(60 / (99 * HOP_DURATION), 6);
+  });
+
+  it('returns a finite tempo for a click track shorter than the slowest beat period', () => {
+    const { samples } = clickTrack(120, 0.7);
+    const bpm = estimateTempo(computeOnsetEnvelope(samples, SAMPLE_RATE));
+    expect(Number.isFinite(bpm)).toBe(true);
+    expect(bpm).toBeCloseTo(120, 0);
+  });
+
+  it('gives up on envelopes too short for any tempo', () => {
+    expect(estimateTempo(envelopeOf(40, [0, 39]))).toBe(0);
+    expect(estimateTempo(envelopeOf(0, []))).toBe(0);
+  });
+
+  it('returns no beats without a tempo', () => {
+    expect(trackBeats(envelopeOf(100, [0, 50]), 0)).toEqual({ beats: [], downbeats: [] });
+  });
+});
+
+describe('snapToGrid', () => {
+  const grid = [1, 2, 3, 4];
+
+  it('picks the closest point and the earlier one on a tie', () => {
+    expect(snapToGrid(2.2, grid)).toBe(2);
+    expect(snapToGrid(2.5, grid)).toBe(2);
+    expect(snapToGrid(9, grid)).toBe(4);
+  });
+
+  it('only snaps to points within the allowed range', () => {
+    expect(snapToGrid(2.2, grid, 2.5)).toBe(3);
+    expect(snapToGrid(3.9, grid, 0, 3.5)).toBe(3);
+  });
+
+  it('keeps the time when no point is in range', () => {
+    expect(snapToGrid(2.2, grid, 5, 6)).toBe(2.2);
+    expect(snapToGrid(2.2, [])).toBe(2.2);
+  });
+});
@@ -0,0 +1,217 @@
+import { analyzeDecodedAudio, getChannels } from './audioDecoder';
+
+// Onset envelope resolution. Non-overlapping frames keep onset times
+// within one hop (~5.8ms at 44.1kHz) of the real transient.
+const HOP_SIZE = 256;
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const PREFERRED_BPM = 120;
+const BEATS_PER_BAR = 4;
+
+export interface OnsetEnvelope {
+  strength: Float32Array;
+  hopDuration: number; // seconds per envelope frame
+}
+
+export interface BeatAnalysis {
+  bpm: number;
+  beats: number[];     // seconds
+  downbeats: number[]; // seconds, subset of beats (first beat of each bar)
+  onsets: number[];    // seconds
+}
+
+/** Averages all channels into a single mono signal. */
+export const mixToMono = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const mono = new Float32Array(length);
+  for (let c = 0; c < channels.length; c++) {
+    const data = channels[c];
+    for (let i = 0; i < length; i++) mono[i] += data[i] / channels.length;
+  }
+  return mono;
+};
+
+/**
+ * Onset strength: half-wave rectified difference of log-compressed frame
+ * energy. Rises sharply on transients and stays at zero on sustained notes.
+ */
+export const computeOnsetEnvelope = (samples: Float32Array, sampleRate: number): OnsetEnvelope => {
+  const frames = Math.floor(samples.length / HOP_SIZE);
+  const strength = new Float32Array(frames);
+  let previous = 0;
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    const from = f * HOP_SIZE;
+    for (let i = from; i < from + HOP_SIZE; i++) sum += samples[i] * samples[i];
+    const level = Math.log1p(100 * Math.sqrt(sum / HOP_SIZE));
+    strength[f] = Math.max(0, level - previous);
+    previous = level;
+  }
+  return { strength, hopDuration: HOP_SIZE / sampleRate };
+};
+
+/** Picks local maxima that stand out from their neighbourhood. */
+export const detectOnsets = (envelope: OnsetEnvelope, minIntervalSec = 0.05): number[] => {
+  const { strength, hopDuration } = envelope;
+  const radius = Math.max(1, Math.round(0.1 / hopDuration));
+  const minGap = Math.max(1, Math.round(minIntervalSec / hopDuration));
+  let globalMax = 0;
+  for (let i = 0; i < strength.length; i++) if (strength[i] > globalMax) globalMax = strength[i];
+  if (globalMax === 0) return [];
+
+  const onsets: number[] = [];
+  let lastFrame = -Infinity;
+  for (let i = 0; i < strength.length; i++) {
+    const value = strength[i];
+    if (value < globalMax * 0.1) continue;
+
+    let isPeak = true;
+    let localSum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(strength.length - 1, i + radius); j++) {
+      if (strength[j] > value || (strength[j] === value && j < i)) isPeak = false;
+      localSum += strength[j];
+      count++;
+    }
+    if (!isPeak || value < (localSum / count) * 1.5) continue;
+    if (i - lastFrame < minGap) continue;
+
+    onsets.push(i * hopDuration);
+    lastFrame = i;
+  }
+  return onsets;
+};
+
+/**
+ * Autocorrelation tempo estimate. Lags are weighted towards PREFERRED_BPM so
+ * that half/double tempo ambiguities resolve the same way every time.
+ */
+export const estimateTempo = (envelope: OnsetEnvelope): number => {
+  const { strength, hopDuration } = envelope;
+  const minLag = Math.max(1, Math.floor(60 / MAX_BPM / hopDuration));
+  const maxLag = Math.min(strength.length - 1, Math.ceil(60 / MIN_BPM / hopDuration));
+  if (maxLag <= minLag) return 0;
+
+  const scores = new Float64Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    // No overlap left past the end of a short envelope
+    if (lag < 1 || lag >= strength.length) continue;
+    let sum = 0;
+    for (let i = lag; i < strength.length; i++) sum += strength[i] * strength[i - lag];
+    scores[lag] = sum / (strength.length - lag);
+  }
+
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = 60 / (lag * hopDuration);
+    const octaves = Math.log2(bpm / PREFERRED_BPM);
+    const weighted = scores[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (weighted > bestScore) {
+      bestScore = weighted;
+      bestLag = lag;
+    }
+  }
+  if (bestLag === 0) return 0;
+
+  // Parabolic interpolation around the peak for sub-frame lag precision,
+  // unless the peak is the last lag the envelope can score
+  const a = scores[bestLag - 1];
+  const b = scores[bestLag];
+  const c = scores[bestLag + 1];
+  const denom = a - 2 * b + c;
+  const shift = denom !== 0 && bestLag + 1 < strength.length ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denom)) : 0;
+  return 60 / ((bestLag + shift) * hopDuration);
+};
+
+/**
+ * Places a beat grid at the given tempo with the phase that collects the
+ * most onset strength, then nudges each grid beat to the strongest onset
+ * nearby so slow tempo drift doesn't accumulate over long tracks.
+ */
+export const trackBeats = (envelope: OnsetEnvelope, bpm: number): { beats: number[]; downbeats: number[] } => {
+  const { strength, hopDuration } = envelope;
+  if (bpm <= 0 || strength.length === 0) return { beats: [], downbeats: [] };
+
+  const period = 60 / bpm / hopDuration;
+  const tolerance = Math.max(1, Math.round(period * 0.1));
+
+  const strongestNear = (center: number): number => {
+    let best = center;
+    for (let j = Math.max(0, center - tolerance); j <= Math.min(strength.length - 1, center + tolerance); j++) {
+      if (strength[j] > strength[best]) best = j;
+    }
+    return best;
+  };
+
+  let bestOffset = 0;
+  let bestScore = -1;
+  for (let offset = 0; offset < Math.ceil(period); offset++) {
+    let score = 0;
+    for (let pos = offset; pos < strength.length; pos += period) score += strength[Math.round(pos)] || 0;
+    if (score > bestScore) {
+      bestScore = score;
+      bestOffset = offset;
+    }
+  }
+
+  const beatFrames: number[] = [];
+  for (let pos = bestOffset; Math.round(pos) < strength.length; pos += period) {
+    const frame = strongestNear(Math.round(pos));
+    if (beatFrames.length === 0 || frame > beatFrames[beatFrames.length - 1]) beatFrames.push(frame);
+  }
+
+  // Downbeat = the position in the bar whose beats carry the most energy
+  const barScores = new Array(BEATS_PER_BAR).fill(0);
+  beatFrames.forEach((frame, i) => { barScores[i % BEATS_PER_BAR] += strength[frame]; });
+  let downbeatPhase = 0;
+  for (let p = 1; p < BEATS_PER_BAR; p++) if (barScores[p] > barScores[downbeatPhase]) downbeatPhase = p;
+
+  const beats = beatFrames.map(f => f * hopDuration);
+  const downbeats = beats.filter((_, i) => i % BEATS_PER_BAR === downbeatPhase);
+  return { beats, downbeats };
+};
+
+export const analyzeBeats = (channels: Float32Array[], sampleRate: number): BeatAnalysis => {
+  const envelope = computeOnsetEnvelope(mixToMono(channels), sampleRate);
+  const bpm = estimateTempo(envelope);
+  const { beats, downbeats } = trackBeats(envelope, bpm);
+  return { bpm, beats, downbeats, onsets: detectOnsets(envelope) };
+};
+
+/**
+ * Returns the grid point closest to `time` within [min, max], or `time`
+ * itself when no grid point falls in that range. Ties go to the earlier point.
+ */
+export const snapToGrid = (time: number, grid: number[], min = 0, max = Infinity): number => {
+  let best = time;
+  let bestDistance = Infinity;
+  for (const point of grid) {
+    if (point < min || point > max) continue;
+    const distance = Math.abs(point - time);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = point;
+    }
+  }
+  return best;
+};
+
+const beatCache = new Map<string, Promise<BeatAnalysis>>();
+
+export const getTrackBeats = (id: string, file: Blob): Promise<BeatAnalysis> => {
+  const cached = beatCache.get(id);
+  if (cached) return cached;
+
+  const pending = analyzeDecodedAudio(id, file, buffer =>
+    analyzeBeats(getChannels(buffer), buffer.sampleRate)
+  );
+  pending.catch(() => beatCache.delete(id));
+  beatCache.set(id, pending);
+  return pending;
+};
+
+export const releaseTrackBeats = (id: string) => {
+  beatCache.delete(id);
+};
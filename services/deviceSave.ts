@@ -0,0 +1,95 @@
+// Getting results onto the device: the share sheet on mobile (camera roll,
+// WhatsApp, Instagram...), a chosen folder on desktop browsers with the File
+// System Access API, and a plain download link everywhere else.
+
+export interface SaveEntry {
+  name: string;
+  blob: Blob;
+}
+
+export type ShareOutcome = 'shared' | 'cancelled';
+
+// Not in the TypeScript DOM lib yet
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite'; startIn?: string }) => Promise<FileSystemDirectoryHandle>;
+};
+
+const toFile = ({ name, blob }: SaveEntry) => new File([blob], name, { type: blob.type || 'video/mp4' });
+
+/** Whether the share sheet accepts files like these. */
+export const canShareFiles = (entries: SaveEntry[]): boolean => {
+  if (typeof navigator.share !== 'function' || typeof navigator.canShare !== 'function') return false;
+  try {
+    return navigator.canShare({ files: entries.map(toFile) });
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Opens the share sheet with the files. Must run inside the click handler,
+ * browsers only allow sharing right after a user gesture.
+ */
+export const shareFiles = async (entries: SaveEntry[], title?: string): Promise<ShareOutcome> => {
+  try {
+    await navigator.share({ files: entries.map(toFile), title });
+    return 'shared';
+  } catch (e) {
+    // Closing the sheet rejects with AbortError, that's not a failure
+    if (e instanceof DOMException && e.name === 'AbortError') return 'cancelled';
+    throw e;
+  }
+};
+
+export const canSaveToFolder = (): boolean =>
+  typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+
+const fileExists = async (directory: FileSystemDirectoryHandle, name: string) => {
+  try {
+    await directory.getFileHandle(name);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Never overwrite what's already in the folder: "a.mp4" becomes "a (2).mp4"
+const freeName = async (directory: FileSystemDirectoryHandle, name: string) => {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  let candidate = name;
+  for (let n = 2; await fileExists(directory, candidate); n++) candidate = `${base} (${n})${extension}`;
+  return candidate;
+};
+
+/**
+ * Asks for a folder and writes every entry into it. Resolves with the
+ * number of files written, or null when the user closed the picker.
+ */
+export const saveToFolder = async (entries: SaveEntry[], onEntry?: (index: number) => void): Promise<number | null> => {
+  const pickerWindow = window as DirectoryPickerWindow;
+  if (!pickerWindow.showDirectoryPicker) throw new Error("Este navegador não permite escolher uma pasta");
+
+  let directory: FileSystemDirectoryHandle;
+  try {
+    directory = await pickerWindow.showDirectoryPicker({ mode: 'readwrite', startIn: 'videos' });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'AbortError') return null;
+    throw e;
+  }
+
+  for (let i = 0; i < entries.length; i++) {
+    onEntry?.(i);
+    const handle = await directory.getFileHandle(await freeName(directory, entries[i].name), { create: true });
+    const writable = await handle.createWritable();
+    try {
+      await writable.write(entries[i].blob);
+      await writable.close();
+    } catch (e) {
+      await writable.abort().catch(() => {});
+      throw e;
+    }
+  }
+  return entries.length;
+};
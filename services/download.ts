@@ -0,0 +1,12 @@
+/** Saves a blob through a temporary download link. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // The download may start after click() returns, keep the URL alive a while
+  window.setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
@@ -0,0 +1,275 @@
+import { describe, expect, it } from 'vitest';
+import { AudioArrangement, OutputProfile, RenderJobSpec } from '../types';
+import { DEFAULT_FILL_SETTINGS, DEFAULT_MIX_SETTINGS, getOutputProfile } from '../constants';
+import { buildFFmpegArgs, duckingRatio, planAudioFilter, planVideoFilter } from './ffmpegArgs';
+import { arrangeTrack } from './audioArrangement';
+
+const files = { video: 'in.mp4', audio: 'in.mp3', output: 'out.mp4' };
+
+const job = (video: Partial<RenderJobSpec['video']>, profile: OutputProfile = getOutputProfile('reels-720')): RenderJobSpec => ({
+  id: 'job',
+  video: {
+    file: new File([], 'in.mp4'),
+    width: 1920,
+    height: 1080,
+    sampleAspectRatio: 1,
+    frameRate: null,
+    reframe: [],
+    trimStart: 0,
+    startsOnKeyframe: true,
+    copyable: true,
+    hasAudio: true,
+    ...video
+  },
+  audio: { file: new File([], 'in.mp3'), name: 'music' },
+  mix: DEFAULT_MIX_SETTINGS,
+  fadeIn: 0,
+  fadeOut: 0,
+  loudnessTarget: null,
+  arrangement: { pieces: [{ sourceStart: 0, duration: 10 }], crossfade: 0, padFade: 0 },
+  duration: 10,
+  profile
+});
+
+const videoFilterOf = (args: string[]) => args[args.indexOf('-vf') + 1];
+const argAfter = (args: string[], flag: string, from = 0) => args[args.indexOf(flag, from) + 1];
+const graphOf = (args: string[]) => argAfter(args, '-filter_complex').split(';');
+
+const mixed = (mix: Partial<RenderJobSpec['mix']>, hasAudio = true): RenderJobSpec => ({
+  ...job({ hasAudio }),
+  mix: { ...DEFAULT_MIX_SETTINGS, ...mix }
+});
+
+const arranged = (arrangement: AudioArrangement, duration: number): RenderJobSpec => ({ ...job({}), arrangement, duration });
+
+describe('planVideoFilter', () => {
+  it('stream copies a source that already has the output size', () => {
+    expect(planVideoFilter(job({ width: 720, height: 1280 })).filter).toBeNull();
+  });
+
+  it('fits a rotated source by its displayed size, leaving the turn to autorotate', () => {
+    // A 1920x1080 phone clip shot upright, 90° or 270°, is displayed 1080x1920
+    const { filter, width, height } = planVideoFilter(job({ width: 1080, height: 1920 }));
+    expect({ width, height }).toEqual({ width: 720, height: 1280 });
+    expect(filter).not.toMatch(/transpose|rotate/);
+    expect(filter).toMatch(/^scale=720:1280:force_original_aspect_ratio=increase,crop=720:1280/);
+  });
+
+  it('copies a rotated source at the output size, keeping its display matrix', () => {
+    expect(planVideoFilter(job({ width: 720, height: 1280 })).filter).toBeNull();
+  });
+
+  it('stretches anamorphic frames to square pixels before fitting', () => {
+    // 1440x1080 at 4:3 pixels is displayed 1920x1080
+    const { filter } = planVideoFilter(job({ width: 1920, height: 1080, sampleAspectRatio: 4 / 3, copyable: false }));
+    expect(filter).toMatch(/^scale=1920:1080,scale=720:1280:force_original_aspect_ratio=increase,crop=/);
+    expect(filter).toMatch(/setsar=1$/);
+  });
+
+  it('re-encodes an anamorphic source even at the output size', () => {
+    const { filter } = planVideoFilter(job({ width: 720, height: 1280, sampleAspectRatio: 4 / 3, copyable: false }));
+    expect(filter).toBe('scale=720:1280,setsar=1');
+  });
+
+  it('keeps the source size with a profile that has none', () => {
+    const sourceSize: OutputProfile = { ...getOutputProfile('landscape'), width: null, height: null, aspectRatio: 16 / 9 };
+    const { width, height } = planVideoFilter(job({ width: 1920, height: 1080 }, sourceSize));
+    expect({ width, height }).toEqual({ width: 1920, height: 1080 });
+  });
+});
+
+describe('buildFFmpegArgs', () => {
+  it('conforms variable frame rate sources to a constant rate first', () => {
+    const args = buildFFmpegArgs(job({ frameRate: 30 }), files);
+    expect(videoFilterOf(args)).toMatch(/^fps=30,scale=720:1280/);
+    expect(args).toContain('libx264');
+  });
+
+  it('conforms before stretching an anamorphic VFR source', () => {
+    const args = buildFFmpegArgs(job({ frameRate: 24, sampleAspectRatio: 4 / 3, copyable: false }), files);
+    expect(videoFilterOf(args)).toMatch(/^fps=24,scale=1920:1080,/);
+  });
+
+  it('conforms a VFR source at the output size when it has to be re-encoded', () => {
+    const args = buildFFmpegArgs(job({ width: 720, height: 1280, frameRate: 25, startsOnKeyframe: false }), files);
+    expect(videoFilterOf(args)).toBe('fps=25,setsar=1');
+    expect(args).not.toContain('copy');
+  });
+
+  it('leaves the timing of a stream copied VFR source alone', () => {
+    const args = buildFFmpegArgs(job({ width: 720, height: 1280, frameRate: 25 }), files);
+    expect(args).not.toContain('-vf');
+  });
+
+  it('stream copies constant rate sources at the output size', () => {
+    const args = buildFFmpegArgs(job({ width: 720, height: 1280 }), files);
+    expect(args).not.toContain('-vf');
+    expect(args.slice(args.indexOf('-c:v'), args.indexOf('-c:v') + 2)).toEqual(['-c:v', 'copy']);
+  });
+
+  it('outputs 4:2:0 when re-encoding', () => {
+    const args = buildFFmpegArgs(job({}), files);
+    expect(args.slice(args.indexOf('-pix_fmt'), args.indexOf('-pix_fmt') + 2)).toEqual(['-pix_fmt', 'yuv420p']);
+  });
+});
+
+describe('arrangement graph', () => {
+  it('seeks a single cut instead of trimming it in the graph', () => {
+    const args = buildFFmpegArgs(arranged({ pieces: [{ sourceStart: 42, duration: 10 }], crossfade: 0, padFade: 0 }, 10), files);
+    expect(args).not.toContain('-filter_complex');
+    expect(argAfter(args, '-ss', args.indexOf('-i'))).toBe('42');
+    expect(argAfter(args, '-map', args.indexOf('-map') + 1)).toBe('1:a');
+  });
+
+  it('crossfades looped pieces into exactly the output duration', () => {
+    const fill = { ...DEFAULT_FILL_SETTINGS, mode: 'loop' as const, loopStart: 1, crossfade: 0.5 };
+    const args = buildFFmpegArgs(arranged(arrangeTrack({ duration: 10, startTime: 2, fill }, 30), 30), files);
+    expect(argAfter(args, '-ss', args.indexOf('-i'))).toBe('0');
+    expect(argAfter(args, '-t')).toBe('30');
+    expect(graphOf(args)).toEqual([
+      '[1:a]asplit=4[src0][src1][src2][src3]',
+      '[src0]atrim=start=2:duration=8,asetpts=PTS-STARTPTS[piece0]',
+      '[src1]atrim=start=1:duration=9,asetpts=PTS-STARTPTS[piece1]',
+      '[src2]atrim=start=1:duration=9,asetpts=PTS-STARTPTS[piece2]',
+      '[src3]atrim=start=1:duration=5.5,asetpts=PTS-STARTPTS[piece3]',
+      '[piece0][piece1]acrossfade=d=0.5:c1=qsin:c2=qsin[joined1]',
+      '[joined1][piece2]acrossfade=d=0.5:c1=qsin:c2=qsin[joined2]',
+      '[joined2][piece3]acrossfade=d=0.5:c1=qsin:c2=qsin[joined3]',
+      '[joined3]anull[arranged]',
+      '[arranged]anull[aout]'
+    ]);
+    const durations = graphOf(args).flatMap(line => line.match(/atrim=start=[\d.]+:duration=([\d.]+)/)?.slice(1) ?? []).map(Number);
+    expect(durations.reduce((sum, d) => sum + d, 0) - 0.5 * (durations.length - 1)).toBe(30);
+    expect(argAfter(args, '-map', args.indexOf('-map') + 1)).toBe('[aout]');
+  });
+
+  it('concatenates stitched pieces without a crossfade', () => {
+    const fill = { ...DEFAULT_FILL_SETTINGS, mode: 'stitch' as const, crossfade: 0, segments: [{ start: 0, end: 6 }, { start: 2, end: 8 }] };
+    const graph = graphOf(buildFFmpegArgs(arranged(arrangeTrack({ duration: 8, startTime: 0, fill }, 10), 10), files));
+    expect(graph).toContain('[src1]atrim=start=2:duration=4,asetpts=PTS-STARTPTS[piece1]');
+    expect(graph).toContain('[piece0][piece1]concat=n=2:v=0:a=1[joined]');
+    expect(graph).toContain('[joined]anull[arranged]');
+    expect(graph.join(';')).not.toContain('acrossfade');
+  });
+
+  it('fades stitched pieces that end early into padding', () => {
+    const fill = { ...DEFAULT_FILL_SETTINGS, mode: 'stitch' as const, crossfade: 1, padFade: 2, segments: [{ start: 2, end: 6 }, { start: 10, end: 12 }] };
+    const graph = graphOf(buildFFmpegArgs(arranged(arrangeTrack({ duration: 20, startTime: 0, fill }, 30), 30), files));
+    expect(graph).toContain('[piece0][piece1]acrossfade=d=1:c1=qsin:c2=qsin[joined1]');
+    // 4s + 2s less the 1s crossfade: the music runs out at 5s
+    expect(graph).toContain('[joined1]afade=t=out:st=3:d=2,apad[arranged]');
+  });
+
+  it('trims and pads a single piece that ends early', () => {
+    const fill = { ...DEFAULT_FILL_SETTINGS, mode: 'pad' as const, padFade: 2 };
+    const args = buildFFmpegArgs(arranged(arrangeTrack({ duration: 10, startTime: 3, fill }, 15), 15), files);
+    expect(argAfter(args, '-ss', args.indexOf('-i'))).toBe('3');
+    expect(argAfter(args, '-t')).toBe('15');
+    expect(graphOf(args)).toEqual([
+      '[1:a]atrim=duration=7[piece0]',
+      '[piece0]afade=t=out:st=5:d=2,apad[arranged]',
+      '[arranged]anull[aout]'
+    ]);
+  });
+
+  it('pads with a hard cut without a fade', () => {
+    const graph = graphOf(buildFFmpegArgs(arranged({ pieces: [{ sourceStart: 0, duration: 7 }], crossfade: 0, padFade: 0 }, 15), files));
+    expect(graph).toContain('[piece0]apad[arranged]');
+  });
+});
+
+describe('planAudioFilter', () => {
+  it('maps the music alone by default', () => {
+    expect(planAudioFilter(job({}))).toEqual({ filterComplex: null, filter: null, map: '1:a' });
+  });
+
+  it('falls back to the music alone when the video has no audio', () => {
+    const plan = planAudioFilter(mixed({ originalGain: 0.8, musicGain: 0.5, ducking: true }, false));
+    expect(plan).toEqual({ filterComplex: null, filter: 'volume=0.5', map: '1:a' });
+  });
+
+  it('mixes the original audio under the music at their levels', () => {
+    const plan = planAudioFilter(mixed({ originalGain: 0.8 }));
+    expect(plan.map).toBe('[aout]');
+    expect(plan.filter).toBeNull();
+    expect(plan.filterComplex?.split(';')).toEqual([
+      '[0:a]volume=0.8[orig]',
+      '[1:a]anull[music]',
+      '[music][orig]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[aout]'
+    ]);
+  });
+
+  it('ducks the music under the voice band of the original audio', () => {
+    const plan = planAudioFilter(mixed({ originalGain: 0.8, musicGain: 0.7, ducking: true, duckingAmount: 0.5 }));
+    expect(plan.map).toBe('[aout]');
+    expect(plan.filterComplex?.split(';')).toEqual([
+      // The original is split: one copy is heard, the other only keys the compressor
+      '[0:a]asplit=2[origraw][sc]',
+      '[origraw]volume=0.8[orig]',
+      '[sc]highpass=f=200,lowpass=f=3500[voice]',
+      '[1:a]volume=0.7[musicraw]',
+      '[musicraw][voice]sidechaincompress=threshold=0.03:ratio=10.5:attack=20:release=400[music]',
+      '[music][orig]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[aout]'
+    ]);
+  });
+
+  it('ducks the arranged music and normalizes the mix', () => {
+    const spec = {
+      ...mixed({ originalGain: 1, ducking: true }),
+      arrangement: { pieces: [{ sourceStart: 0, duration: 6 }], crossfade: 0, padFade: 0 }
+    };
+    const graph = planAudioFilter(spec, 'loudnorm=I=-14').filterComplex?.split(';') ?? [];
+    expect(graph).toContain('[arranged]anull[musicraw]');
+    expect(graph[graph.length - 1]).toBe(
+      '[music][orig]amix=inputs=2:duration=first:dropout_transition=0:normalize=0,loudnorm=I=-14,aresample=48000,aformat=channel_layouts=stereo[aout]'
+    );
+  });
+
+  it('leaves the original audio out when its gain is zero', () => {
+    const plan = planAudioFilter(mixed({ originalGain: 0, ducking: true }));
+    expect(plan.filterComplex).toBeNull();
+    expect(plan.map).toBe('1:a');
+  });
+});
+
+describe('duckingRatio', () => {
+  it('maps the amount onto 1:1 to 20:1 and clamps it', () => {
+    expect(duckingRatio(0)).toBe(1);
+    expect(duckingRatio(1)).toBe(20);
+    expect(duckingRatio(-1)).toBe(1);
+    expect(duckingRatio(2)).toBe(20);
+  });
+});
+
+describe('music fades', () => {
+  const faded = (fadeIn: number, fadeOut: number, duration = 10): RenderJobSpec => ({ ...job({}), fadeIn, fadeOut, duration });
+
+  it('fades in from the start and out at the end of the output', () => {
+    expect(planAudioFilter(faded(1, 2)).filter).toBe('afade=t=in:st=0:d=1,afade=t=out:st=8:d=2');
+  });
+
+  it('keeps the fades from overlapping on short outputs', () => {
+    expect(planAudioFilter(faded(2, 4, 3)).filter).toBe('afade=t=in:st=0:d=1.5,afade=t=out:st=1.5:d=1.5');
+  });
+
+  it('fades after the music level and before loudnorm', () => {
+    const spec = { ...faded(0, 2), mix: { ...DEFAULT_MIX_SETTINGS, musicGain: 0.5 } };
+    expect(planAudioFilter(spec, 'loudnorm=I=-14').filter).toBe(
+      'volume=0.5,afade=t=out:st=8:d=2,loudnorm=I=-14,aresample=48000,aformat=channel_layouts=stereo'
+    );
+  });
+
+  it('fades the music before mixing in the original audio', () => {
+    const spec = { ...faded(1, 0), mix: { ...DEFAULT_MIX_SETTINGS, originalGain: 1 } };
+    expect(planAudioFilter(spec).filterComplex?.split(';')).toContain('[1:a]afade=t=in:st=0:d=1[music]');
+  });
+
+  it('fades out at the end of the output, after the padded music', () => {
+    const spec = { ...faded(0, 1, 15), arrangement: { pieces: [{ sourceStart: 3, duration: 7 }], crossfade: 0, padFade: 2 } };
+    expect(planAudioFilter(spec).filterComplex?.split(';')).toEqual([
+      '[1:a]atrim=duration=7[piece0]',
+      '[piece0]afade=t=out:st=5:d=2,apad[arranged]',
+      '[arranged]afade=t=out:st=14:d=1[aout]'
+    ]);
+  });
+});
@@ -0,0 +1,292 @@
+import { AudioArrangement, OutputProfile, RenderJobSpec } from '../types';
+import { DUCKING_THRESHOLD } from '../constants';
+import { buildReframeExpression } from './reframe';
+import { LoudnormMeasurement, loudnormFilter } from './loudness';
+import { arrangementLength } from './audioArrangement';
+
+// Paths inside the FFmpeg virtual filesystem for one job
+export interface RenderJobFiles {
+  video: string;
+  audio: string;
+  output: string;
+}
+
+export interface VideoFilterPlan {
+  filter: string | null; // null means the video stream can be copied as-is
+  width: number;
+  height: number;
+}
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * Output frame size for a profile. Profiles without a fixed resolution use
+ * the largest frame of their aspect ratio that fits inside the source.
+ */
+export const resolveOutputSize = (
+  profile: OutputProfile,
+  sourceWidth: number,
+  sourceHeight: number
+): { width: number; height: number } => {
+  if (profile.width && profile.height) {
+    return { width: profile.width, height: profile.height };
+  }
+  if (sourceWidth / sourceHeight > profile.aspectRatio) {
+    return { width: even(sourceHeight * profile.aspectRatio), height: even(sourceHeight) };
+  }
+  return { width: even(sourceWidth), height: even(sourceWidth / profile.aspectRatio) };
+};
+
+/**
+ * Filters turning the decoded frames into the displayed picture at a steady
+ * rate: anamorphic frames are stretched to square pixels and variable frame
+ * rate footage is conformed to a constant rate. Rotation is already applied
+ * by FFmpeg's autorotate before the graph runs.
+ */
+const sourceFilters = (video: RenderJobSpec['video']): string[] => {
+  const filters: string[] = [];
+  if (video.frameRate !== null) filters.push(`fps=${video.frameRate}`);
+  if (video.sampleAspectRatio !== 1) filters.push(`scale=${video.width}:${video.height}`);
+  return filters;
+};
+
+/**
+ * Decides how the source frame maps onto the profile frame:
+ * - crop: fill the frame and cut the overflow at the reframed position
+ * - letterbox: fit inside the frame with black bars
+ * - blur: fit inside the frame over a blurred, cropped copy of itself
+ * Sources that already have the exact output size are stream-copied, as
+ * long as the trim starts on a keyframe and the codec can go into MP4;
+ * otherwise they are re-encoded as is.
+ */
+export const planVideoFilter = (spec: RenderJobSpec): VideoFilterPlan => {
+  const { width, height } = resolveOutputSize(spec.profile, spec.video.width, spec.video.height);
+
+  const source = sourceFilters(spec.video);
+
+  if (spec.video.width === width && spec.video.height === height) {
+    const copy = spec.video.startsOnKeyframe && spec.video.copyable;
+    return { filter: copy ? null : [...source, 'setsar=1'].join(','), width, height };
+  }
+
+  // Crop window follows the reframe keyframes (centered when there are none).
+  // Keyframes are in source time, the filter's `t` starts at the trim IN point.
+  const reframe = spec.video.reframe.map(k => ({ ...k, time: k.time - spec.video.trimStart }));
+  const cropX = buildReframeExpression(reframe, 'x');
+  const cropY = buildReframeExpression(reframe, 'y');
+  const cover = `scale=${width}:${height}:force_original_aspect_ratio=increase,`
+    + `crop=${width}:${height}:x='(iw-ow)*(${cropX})':y='(ih-oh)*(${cropY})'`;
+  const contain = `scale=${width}:${height}:force_original_aspect_ratio=decrease`;
+
+  let filter: string;
+  switch (spec.profile.fitMode) {
+    case 'letterbox':
+      filter = `${contain},pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black`;
+      break;
+    case 'blur':
+      filter = `split[bg][fg];[bg]${cover},boxblur=20:5[bgb];[fg]${contain}[fgs];[bgb][fgs]overlay=(W-w)/2:(H-h)/2`;
+      break;
+    case 'crop':
+    default:
+      filter = cover;
+  }
+
+  return { filter: [...source, filter, 'setsar=1'].join(','), width, height };
+};
+
+export interface AudioFilterPlan {
+  filterComplex: string | null; // graph producing [aout] when the original audio is mixed in
+  filter: string | null;        // simple -af chain for the music only
+  map: string;                  // audio stream to map into the output
+}
+
+// Sample rate after loudnorm, which otherwise outputs at 192kHz
+const NORMALIZED_SAMPLE_RATE = 48000;
+
+/** Compressor ratio for a 0..1 ducking amount (1:1 = no ducking, up to 20:1). */
+export const duckingRatio = (amount: number) => 1 + Math.min(1, Math.max(0, amount)) * 19;
+
+const gain = (value: number) => Number(value.toFixed(3)).toString();
+
+/** Music chain: level plus the fades at the edges of the cut. */
+const musicChain = (spec: AudioJobSpec): string[] => {
+  const filters = spec.mix.musicGain !== 1 ? [`volume=${gain(spec.mix.musicGain)}`] : [];
+  // Fades can't overlap on short outputs
+  const fadeIn = Math.min(spec.fadeIn, spec.duration / 2);
+  const fadeOut = Math.min(spec.fadeOut, spec.duration / 2);
+  if (fadeIn > 0) filters.push(`afade=t=in:st=0:d=${gain(fadeIn)}`);
+  if (fadeOut > 0) filters.push(`afade=t=out:st=${gain(spec.duration - fadeOut)}:d=${gain(fadeOut)}`);
+  return filters;
+};
+
+export type AudioJobSpec = Pick<RenderJobSpec, 'mix' | 'fadeIn' | 'fadeOut' | 'duration' | 'arrangement'> & {
+  video: Pick<RenderJobSpec['video'], 'hasAudio'>;
+};
+
+/** Seek applied to the audio input; arrangements with several pieces trim inside the graph. */
+export const arrangementSeek = (arrangement: AudioArrangement) =>
+  arrangement.pieces.length === 1 ? arrangement.pieces[0].sourceStart : 0;
+
+/**
+ * Graph lines joining the pieces of a multi-piece or padded arrangement into
+ * [arranged], or null when the seeked input already is the music.
+ */
+const arrangementGraph = (arrangement: AudioArrangement, duration: number): string[] | null => {
+  const { pieces, crossfade, padFade } = arrangement;
+  const length = arrangementLength(arrangement);
+  const padded = length < duration - 0.001;
+  if (pieces.length === 1 && !padded) return null;
+
+  const graph: string[] = [];
+  let joined: string;
+  if (pieces.length === 1) {
+    graph.push(`[1:a]atrim=duration=${gain(pieces[0].duration)}[piece0]`);
+    joined = '[piece0]';
+  } else {
+    graph.push(`[1:a]asplit=${pieces.length}${pieces.map((_, i) => `[src${i}]`).join('')}`);
+    pieces.forEach((piece, i) => {
+      graph.push(`[src${i}]atrim=start=${gain(piece.sourceStart)}:duration=${gain(piece.duration)},asetpts=PTS-STARTPTS[piece${i}]`);
+    });
+    if (crossfade > 0) {
+      joined = '[piece0]';
+      for (let i = 1; i < pieces.length; i++) {
+        graph.push(`${joined}[piece${i}]acrossfade=d=${gain(crossfade)}:c1=qsin:c2=qsin[joined${i}]`);
+        joined = `[joined${i}]`;
+      }
+    } else {
+      graph.push(`${pieces.map((_, i) => `[piece${i}]`).join('')}concat=n=${pieces.length}:v=0:a=1[joined]`);
+      joined = '[joined]';
+    }
+  }
+
+  // Silence up to the end of the output, -t cuts it at the exact duration
+  const tail: string[] = [];
+  if (padded) {
+    if (padFade > 0) tail.push(`afade=t=out:st=${gain(length - padFade)}:d=${gain(padFade)}`);
+    tail.push('apad');
+  }
+  graph.push(`${joined}${tail.join(',') || 'anull'}[arranged]`);
+  return graph;
+};
+
+/**
+ * Audio side of the job. Without the original sound (removed, or absent
+ * from the source) the music is mapped directly; otherwise both are mixed, optionally with the music sidechain
+ * compressed by the speech band of the original audio. `loudnorm`, when
+ * given, is appended to the final signal.
+ */
+export const planAudioFilter = (spec: AudioJobSpec, loudnorm: string | null = null): AudioFilterPlan => {
+  // loudnorm leaves the channel layout unset, which breaks format negotiation
+  // with the encoder for mono sources, so it is pinned to stereo
+  const master = loudnorm
+    ? [loudnorm, `aresample=${NORMALIZED_SAMPLE_RATE}`, 'aformat=channel_layouts=stereo']
+    : [];
+  const { mix } = spec;
+  const arranged = arrangementGraph(spec.arrangement, spec.duration);
+  const graph: string[] = arranged ? [...arranged] : [];
+  const musicIn = arranged ? '[arranged]' : '[1:a]';
+
+  if (mix.originalGain <= 0 || !spec.video.hasAudio) {
+    const chain = [...musicChain(spec), ...master];
+    if (!arranged) {
+      return {
+        filterComplex: null,
+        filter: chain.length > 0 ? chain.join(',') : null,
+        map: '1:a'
+      };
+    }
+    graph.push(`${musicIn}${chain.join(',') || 'anull'}[aout]`);
+    return { filterComplex: graph.join(';'), filter: null, map: '[aout]' };
+  }
+
+  const music = musicChain(spec).join(',') || 'anull';
+
+  if (mix.ducking) {
+    graph.push(`[0:a]asplit=2[origraw][sc]`);
+    graph.push(`[origraw]volume=${gain(mix.originalGain)}[orig]`);
+    // Key the compressor on the voice band only, so music or noise in the original doesn't duck
+    graph.push(`[sc]highpass=f=200,lowpass=f=3500[voice]`);
+    graph.push(`${musicIn}${music}[musicraw]`);
+    graph.push(`[musicraw][voice]sidechaincompress=threshold=${DUCKING_THRESHOLD}:ratio=${gain(duckingRatio(mix.duckingAmount))}:attack=20:release=400[music]`);
+  } else {
+    graph.push(`[0:a]volume=${gain(mix.originalGain)}[orig]`);
+    graph.push(`${musicIn}${music}[music]`);
+  }
+  // Plain sum at the chosen levels; amix's default scaling would also jump
+  // the music by 6dB wherever the original audio ends before it
+  graph.push(`[music][orig]amix=inputs=2:duration=first:dropout_transition=0:normalize=0${master.map(f => `,${f}`).join('')}[aout]`);
+
+  return { filterComplex: graph.join(';'), filter: null, map: '[aout]' };
+};
+
+const inputArgs = (spec: RenderJobSpec, files: RenderJobFiles): string[] => [
+  '-ss', spec.video.trimStart.toString(), // Seek Video Input to the trim IN point
+  '-i', files.video,                      // Input 0: Video
+  '-ss', arrangementSeek(spec.arrangement).toString(), // Seek Audio Input
+  '-i', files.audio,                      // Input 1: Audio
+  '-t', spec.duration.toString(),         // Trim to output duration
+];
+
+const audioArgs = (plan: AudioFilterPlan, videoMap: string | null): string[] => {
+  const args: string[] = [];
+  if (plan.filterComplex) {
+    args.push('-filter_complex', plan.filterComplex);
+  }
+  if (videoMap) {
+    args.push('-map', videoMap);            // Map Video from Input 0
+  }
+  args.push('-map', plan.map);              // Music from Input 1, or the mix
+  if (plan.filter) {
+    args.push('-af', plan.filter);
+  }
+  return args;
+};
+
+/**
+ * First loudnorm pass: runs only the audio side of the job through the
+ * analysis filter and discards the output. The stats end up in the log.
+ */
+export const buildLoudnessMeasureArgs = (spec: RenderJobSpec, files: RenderJobFiles): string[] => {
+  if (spec.loudnessTarget === null) {
+    throw new Error('Job has no loudness target');
+  }
+  return [
+    ...inputArgs(spec, files),
+    ...audioArgs(planAudioFilter(spec, loudnormFilter(spec.loudnessTarget)), null),
+    '-vn',
+    '-f', 'null', '-'
+  ];
+};
+
+/**
+ * Compiles a job spec into the argument list for `ffmpeg.run`. With a
+ * loudness target, `measured` comes from the first pass; without it loudnorm
+ * falls back to its single-pass dynamic mode.
+ */
+export const buildFFmpegArgs = (
+  spec: RenderJobSpec,
+  files: RenderJobFiles,
+  measured: LoudnormMeasurement | null = null
+): string[] => {
+  const loudnorm = spec.loudnessTarget === null ? null : loudnormFilter(spec.loudnessTarget, measured);
+  const audio = planAudioFilter(spec, loudnorm);
+
+  const args = [...inputArgs(spec, files), ...audioArgs(audio, '0:v')];
+
+  const { filter } = planVideoFilter(spec);
+  if (filter) {
+    args.push('-vf', filter);
+    args.push('-c:v', 'libx264');
+    args.push('-preset', spec.profile.videoPreset);
+    args.push('-crf', spec.profile.videoCrf.toString());
+    // ProRes 4:2:2 or 10-bit HEVC sources would otherwise keep a pixel format few players decode
+    args.push('-pix_fmt', 'yuv420p');
+  } else {
+    args.push('-c:v', 'copy');
+  }
+
+  args.push('-c:a', 'aac');          // Re-encode audio to ensure compatibility
+  args.push('-b:a', spec.profile.audioBitrate);
+  args.push(files.output);
+  return args;
+};
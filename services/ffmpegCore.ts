@@ -0,0 +1,106 @@
+import { FFmpegFS, FFmpegInstance, FFmpegFactory } from './renderEngine';
+// Multithreaded @ffmpeg/core-mt 0.12, bundled and served from our own origin
+import coreUrl from '@ffmpeg/core-mt/core?url'; // aliased in vite.config.ts
+import wasmUrl from '@ffmpeg/core-mt/wasm?url';
+import coreWorkerUrl from '@ffmpeg/core-mt/worker?url';
+
+// Emscripten filesystem type, opaque here
+type EmscriptenFileSystem = object;
+
+interface FFmpegCoreFS extends FFmpegFS {
+  mkdir: (path: string) => void;
+  rmdir: (path: string) => void;
+  mount: (type: EmscriptenFileSystem, options: { blobs: { name: string; data: Blob }[] }, mountpoint: string) => void;
+  unmount: (mountpoint: string) => void;
+  filesystems: { WORKERFS: EmscriptenFileSystem };
+}
+
+interface FFmpegCoreModule {
+  FS: FFmpegCoreFS;
+  // Runs ffmpeg to completion on the calling thread and returns its exit code
+  exec: (...args: string[]) => number;
+  reset: () => void;
+  setLogger: (logger: (entry: { type: string; message: string }) => void) => void;
+}
+
+interface CreateFFmpegCoreOptions {
+  // The core locates its wasm and pthread worker from the JSON after the `#`
+  mainScriptUrlOrBlob: string;
+}
+
+type CreateFFmpegCore = (options: CreateFFmpegCoreOptions) => Promise<FFmpegCoreModule>;
+
+/**
+ * FFmpegInstance backed directly by @ffmpeg/core-mt. Unlike the @ffmpeg/ffmpeg
+ * wrapper it doesn't start a worker of its own, so it runs inside ours.
+ */
+export const createCoreFFmpeg: FFmpegFactory = () => {
+  let core: FFmpegCoreModule | null = null;
+  let logger: (entry: { type: string; message: string }) => void = () => {};
+
+  const requireCore = (): FFmpegCoreModule => {
+    if (!core) throw new Error('ffmpeg.wasm is not ready, make sure you have completed load().');
+    return core;
+  };
+
+  const instance: FFmpegInstance = {
+    load: async () => {
+      // The multithreaded core needs SharedArrayBuffer, which requires the COOP/COEP headers
+      if (typeof SharedArrayBuffer === 'undefined') {
+        throw new Error("O navegador não liberou o modo multithread (cabeçalhos COOP/COEP ausentes).");
+      }
+
+      let createFFmpegCore: CreateFFmpegCore;
+      try {
+        createFFmpegCore = (await import(/* @vite-ignore */ coreUrl) as { default: CreateFFmpegCore }).default;
+      } catch (err) {
+        console.error("FFmpeg core download failed:", err);
+        throw new Error("Componente FFmpeg não foi carregado. Verifique sua conexão.");
+      }
+
+      core = await createFFmpegCore({
+        mainScriptUrlOrBlob: `${coreUrl}#${btoa(JSON.stringify({ wasmURL: wasmUrl, workerURL: coreWorkerUrl }))}`
+      });
+      core.setLogger(entry => logger(entry));
+    },
+
+    isLoaded: () => core !== null,
+
+    run: async (...args: string[]) => {
+      const module = requireCore();
+      // Like 0.10's FFMPEG_END, a failed command resolves too; its errors are in the log
+      module.exec(...args.filter(arg => arg.length !== 0));
+      module.reset();
+    },
+
+    FS: <M extends keyof FFmpegFS>(method: M, ...args: Parameters<FFmpegFS[M]>) => {
+      const fs = requireCore().FS;
+      // TypeScript can't tie fs[method] to the args of the same M
+      const call = fs[method] as (...args: Parameters<FFmpegFS[M]>) => ReturnType<FFmpegFS[M]>;
+      return call.apply(fs, args);
+    },
+
+    mount: (directory, files) => {
+      const fs = requireCore().FS;
+      fs.mkdir(directory);
+      try {
+        fs.mount(fs.filesystems.WORKERFS, { blobs: files }, directory);
+      } catch (err) {
+        fs.rmdir(directory);
+        throw err;
+      }
+    },
+
+    unmount: (directory) => {
+      const fs = requireCore().FS;
+      fs.unmount(directory);
+      fs.rmdir(directory);
+    },
+
+    setLogger: (newLogger) => {
+      logger = newLogger;
+    }
+  };
+
+  return instance;
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { estimateRenderProgress, parseStatusLine, parseTimestamp } from './ffmpegProgress';
+
+// Lines as @ffmpeg/core prints them on stderr
+const STATUS_LINE = 'frame=  240 fps= 12 q=28.0 size=    1024kB time=00:00:09.60 bitrate= 873.8kbits/s speed=0.48x';
+const FIRST_STATUS_LINE = 'frame=    0 fps=0.0 q=0.0 size=       0kB time=N/A bitrate=N/A speed=N/A';
+const NEGATIVE_TIME_LINE = 'frame=    1 fps=0.0 q=0.0 size=       0kB time=-577014:32:22.77 bitrate=  -0.0kbits/s speed=N/A';
+const FINAL_LINE = 'frame=  375 fps= 14 q=-1.0 Lsize=    1843kB time=00:00:12.48 bitrate=1209.8kbits/s speed=0.47x';
+// The loudness measuring pass writes audio only to the null muxer
+const MEASURE_LINE = 'size=N/A time=00:00:05.00 bitrate=N/A speed=10.2x';
+
+describe('parseTimestamp', () => {
+  it('reads hours, minutes and fractional seconds', () => {
+    expect(parseTimestamp('00:00:09.60')).toBeCloseTo(9.6);
+    expect(parseTimestamp('01:02:03.5')).toBeCloseTo(3723.5);
+    expect(parseTimestamp(' 00:01:00 ')).toBe(60);
+  });
+
+  it('rejects negative, missing and malformed timestamps', () => {
+    expect(parseTimestamp('-577014:32:22.77')).toBeNull();
+    expect(parseTimestamp('N/A')).toBeNull();
+    expect(parseTimestamp('00:9.60')).toBeNull();
+    expect(parseTimestamp('')).toBeNull();
+  });
+});
+
+describe('parseStatusLine', () => {
+  it('parses a normal status line', () => {
+    const status = parseStatusLine(STATUS_LINE);
+    expect(status).not.toBeNull();
+    expect(status!.time).toBeCloseTo(9.6);
+    expect(status!.speed).toBeCloseTo(0.48);
+    expect(status!.frame).toBe(240);
+    expect(status!.fps).toBe(12);
+  });
+
+  it('parses the final line with Lsize and a negative quantizer', () => {
+    const status = parseStatusLine(FINAL_LINE);
+    expect(status!.time).toBeCloseTo(12.48);
+    expect(status!.frame).toBe(375);
+  });
+
+  it('parses the measuring pass line without frame or fps', () => {
+    const status = parseStatusLine(MEASURE_LINE);
+    expect(status).toEqual({ time: 5, speed: 10.2, frame: null, fps: null });
+  });
+
+  it('ignores time=N/A before the first frame is muxed', () => {
+    expect(parseStatusLine(FIRST_STATUS_LINE)).toBeNull();
+  });
+
+  it('ignores the bogus negative time', () => {
+    expect(parseStatusLine(NEGATIVE_TIME_LINE)).toBeNull();
+  });
+
+  it('reports no speed while FFmpeg has none', () => {
+    const status = parseStatusLine('frame=   12 fps=0.0 q=28.0 size=       0kB time=00:00:00.40 bitrate=   0.9kbits/s speed=0x');
+    expect(status!.time).toBeCloseTo(0.4);
+    expect(status!.speed).toBeNull();
+  });
+
+  it('returns null for other log lines', () => {
+    expect(parseStatusLine('Stream #0:0 -> #0:0 (h264 (native) -> h264 (libx264))')).toBeNull();
+    expect(parseStatusLine('[Parsed_loudnorm_0 @ 0x1] "input_i" : "-23.01",')).toBeNull();
+  });
+});
+
+describe('estimateRenderProgress', () => {
+  it('places a status line within a single job', () => {
+    const status = parseStatusLine(STATUS_LINE)!;
+    const estimate = estimateRenderProgress([12], 0, status.time, status.speed);
+    expect(estimate.jobRatio).toBeCloseTo(0.8);
+    expect(estimate.overallRatio).toBeCloseTo(0.8);
+    expect(estimate.etaSeconds).toBeCloseTo(2.4 / 0.48);
+  });
+
+  it('clamps a time past the job duration', () => {
+    const status = parseStatusLine(FINAL_LINE)!;
+    const estimate = estimateRenderProgress([10, 10], 0, status.time, status.speed);
+    expect(estimate.jobRatio).toBe(1);
+    expect(estimate.overallRatio).toBeCloseTo(0.5);
+    expect(estimate.etaSeconds).toBeCloseTo(10 / 0.47);
+  });
+
+  it('clamps a negative time to the start of the job', () => {
+    const estimate = estimateRenderProgress([10, 10], 1, -3, null);
+    expect(estimate.jobRatio).toBe(0);
+    expect(estimate.overallRatio).toBeCloseTo(0.5);
+    expect(estimate.etaSeconds).toBeNull();
+  });
+
+  it('weights jobs by their duration across passes', () => {
+    const durations = [30, 10, 20];
+    expect(estimateRenderProgress(durations, 0, 15, 1).overallRatio).toBeCloseTo(0.25);
+    expect(estimateRenderProgress(durations, 1, 5, 1).overallRatio).toBeCloseTo(35 / 60);
+    expect(estimateRenderProgress(durations, 2, 20, 2)).toEqual({ jobRatio: 1, overallRatio: 1, etaSeconds: 0 });
+  });
+
+  it('never goes backwards from the end of one job to the start of the next', () => {
+    const durations = [8, 12];
+    const end = estimateRenderProgress(durations, 0, 8, 1);
+    const start = estimateRenderProgress(durations, 1, 0, 1);
+    expect(start.overallRatio).toBeCloseTo(end.overallRatio);
+    expect(start.etaSeconds).toBeCloseTo(12);
+  });
+
+  it('reports nothing for an empty or zero-length batch', () => {
+    expect(estimateRenderProgress([], 0, 5, 1)).toEqual({ jobRatio: 0, overallRatio: 0, etaSeconds: 0 });
+    expect(estimateRenderProgress([0], 0, 5, null)).toEqual({ jobRatio: 0, overallRatio: 0, etaSeconds: null });
+  });
+});
@@ -0,0 +1,73 @@
+// Parsing of FFmpeg's periodic status line, e.g.
+// frame=  240 fps= 12 q=28.0 size=    1024kB time=00:00:09.60 bitrate= 873.8kbits/s speed=0.48x
+
+export interface FFmpegStatusLine {
+  time: number;          // seconds of output encoded so far
+  speed: number | null;  // encoding speed relative to realtime
+  frame: number | null;
+  fps: number | null;
+}
+
+export interface RenderEstimate {
+  jobRatio: number;            // 0..1 within the current job
+  overallRatio: number;        // 0..1 across every job
+  etaSeconds: number | null;   // null until FFmpeg reports a speed
+}
+
+/** Parses `HH:MM:SS.cc`, returns null for malformed or negative timestamps. */
+export const parseTimestamp = (value: string): number | null => {
+  const match = /^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(value.trim());
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+const readNumber = (line: string, key: string): number | null => {
+  const match = new RegExp(`${key}=\\s*(-?[\\d.]+)`).exec(line);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Extracts progress from an FFmpeg log line. Returns null for every other
+ * line, including the bogus negative `time=` FFmpeg prints before the first
+ * frame is muxed.
+ */
+export const parseStatusLine = (line: string): FFmpegStatusLine | null => {
+  const timeMatch = /time=\s*(\S+)/.exec(line);
+  if (!timeMatch) return null;
+  const time = parseTimestamp(timeMatch[1]);
+  if (time === null) return null;
+
+  const speedMatch = /speed=\s*([\d.]+)x/.exec(line);
+  const speed = speedMatch ? parseFloat(speedMatch[1]) : null;
+
+  return {
+    time,
+    speed: speed !== null && speed > 0 ? speed : null,
+    frame: readNumber(line, 'frame'),
+    fps: readNumber(line, 'fps')
+  };
+};
+
+/**
+ * Combines the position inside the current job with the jobs around it.
+ * Jobs are weighted by their output duration, and the ETA assumes the
+ * remaining media encodes at the current speed.
+ */
+export const estimateRenderProgress = (
+  durations: number[],
+  jobIndex: number,
+  jobTime: number,
+  speed: number | null
+): RenderEstimate => {
+  const total = durations.reduce((sum, d) => sum + d, 0);
+  const current = durations[jobIndex] ?? 0;
+  const jobRatio = current > 0 ? Math.min(1, Math.max(0, jobTime / current)) : 0;
+
+  const done = durations.slice(0, jobIndex).reduce((sum, d) => sum + d, 0) + jobRatio * current;
+  const overallRatio = total > 0 ? Math.min(1, done / total) : 0;
+
+  const etaSeconds = speed ? (total - done) / speed : null;
+  return { jobRatio, overallRatio, etaSeconds };
+};
@@ -0,0 +1,76 @@
+// Box-level reader for ISO BMFF files (MP4/MOV/M4A). Walks box headers and
+// loads only the moov box, never the media data.
+
+export interface Box {
+  type: string;
+  start: number;   // offset of the payload
+  end: number;
+}
+
+export const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+export const readUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+
+/** Child boxes of the payload range [start, end) of a buffer. */
+export const childBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = fourCC(view, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      size = readUint64(view, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+    boxes.push({ type, start: offset + header, end: Math.min(end, offset + size) });
+    offset += size;
+  }
+  return boxes;
+};
+
+export const findBox = (view: DataView, parent: Box, type: string) =>
+  childBoxes(view, parent.start, parent.end).find(box => box.type === type);
+
+export const findPath = (view: DataView, parent: Box, path: string[]): Box | undefined =>
+  path.reduce<Box | undefined>((box, type) => box && findBox(view, box, type), parent);
+
+/** Locates the top-level moov box by walking box headers through the file. */
+export const readMoov = async (file: Blob): Promise<DataView | null> => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    let size = header.getUint32(0);
+    const type = fourCC(header, 4);
+    let headerSize = 8;
+    if (size === 1) {
+      size = readUint64(header, 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) return null;
+    if (type === 'moov') {
+      return new DataView(await file.slice(offset, offset + size).arrayBuffer());
+    }
+    offset += size;
+  }
+  return null;
+};
+
+/** Entries of a full box table (stts, stss, ctts...) as rows of 32-bit fields. */
+export const readEntries = (view: DataView, box: Box, fields: number): number[][] => {
+  const count = view.getUint32(box.start + 4);
+  const entries: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const at = box.start + 8 + i * fields * 4;
+    if (at + fields * 4 > box.end) break;
+    entries.push(Array.from({ length: fields }, (_, f) => view.getInt32(at + f * 4)));
+  }
+  return entries;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { computeLoudnessProfile, integratedLoudness, loudnormFilter, parseLoudnormMeasurement } from './loudness';
+
+// Tail of the log of `loudnorm=I=-14:TP=-1.5:LRA=11:print_format=json` on a
+// 3s 1 kHz sine at 1/8 of full scale, as @ffmpeg/core 0.12 prints it
+const MEASURE_LOG = [
+  'size=N/A time=00:00:03.00 bitrate=N/A speed=9.82x    ',
+  'video:0kB audio:1125kB subtitle:0kB other streams:0kB global headers:0kB muxing overhead: unknown',
+  '[Parsed_loudnorm_0 @ 0xe03b30] ',
+  '{',
+  '\t"input_i" : "-21.05",',
+  '\t"input_tp" : "-18.06",',
+  '\t"input_lra" : "0.00",',
+  '\t"input_thresh" : "-31.05",',
+  '\t"output_i" : "-13.95",',
+  '\t"output_tp" : "-10.97",',
+  '\t"output_lra" : "0.00",',
+  '\t"output_thresh" : "-23.95",',
+  '\t"normalization_type" : "dynamic",',
+  '\t"target_offset" : "-0.05"',
+  '}'
+].join('\n');
+
+const sine = (frequency: number, amplitude: number, seconds: number, sampleRate: number) =>
+  Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate));
+
+describe('parseLoudnormMeasurement', () => {
+  it('reads the input stats of the analysis pass', () => {
+    expect(parseLoudnormMeasurement(MEASURE_LOG)).toEqual({
+      inputI: -21.05,
+      inputTp: -18.06,
+      inputLra: 0,
+      inputThresh: -31.05,
+      targetOffset: -0.05
+    });
+  });
+
+  it('returns null when the log has no stats', () => {
+    expect(parseLoudnormMeasurement(MEASURE_LOG.slice(0, MEASURE_LOG.indexOf('{')))).toBeNull();
+    expect(parseLoudnormMeasurement('Error while filtering: Cannot allocate memory')).toBeNull();
+  });
+
+  it('returns null for a silent input', () => {
+    expect(parseLoudnormMeasurement(MEASURE_LOG.replace('"-21.05"', '"-inf"'))).toBeNull();
+  });
+});
+
+describe('loudnormFilter', () => {
+  it('prints the stats in the analysis pass', () => {
+    expect(loudnormFilter(-14)).toBe('loudnorm=I=-14:TP=-1.5:LRA=11:print_format=json');
+  });
+
+  it('applies the measurement linearly in the render pass', () => {
+    expect(loudnormFilter(-14, parseLoudnormMeasurement(MEASURE_LOG))).toBe(
+      'loudnorm=I=-14:TP=-1.5:LRA=11:measured_I=-21.05:measured_TP=-18.06:measured_LRA=0'
+      + ':measured_thresh=-31.05:offset=-0.05:linear=true:print_format=summary'
+    );
+  });
+});
+
+describe('integratedLoudness', () => {
+  it.each([44100, 48000])('measures a 1 kHz sine like loudnorm at %i Hz', (sampleRate) => {
+    // -3.01 dB RMS at full scale, less 18.06 dB for 1/8; K-weighting is flat at 1 kHz
+    const profile = computeLoudnessProfile([sine(1000, 1 / 8, 3, sampleRate)], sampleRate);
+    expect(integratedLoudness(profile, 0, 3)).toBeCloseTo(-21.05, 1);
+  });
+
+  it('sums the channels', () => {
+    const channel = sine(1000, 1 / 8, 3, 48000);
+    const profile = computeLoudnessProfile([channel, channel], 48000);
+    expect(integratedLoudness(profile, 0, 3)).toBeCloseTo(-21.05 + 3.01, 1);
+  });
+
+  it('gates out passages more than 10 LU below the rest', () => {
+    // 3s at -21 LUFS then 3s at -61 LUFS; ungated they would average to about -24
+    const samples = new Float32Array(6 * 48000);
+    samples.set(sine(1000, 1 / 8, 3, 48000));
+    samples.set(sine(1000, 1 / 800, 3, 48000), 3 * 48000);
+    const loudness = integratedLoudness(computeLoudnessProfile([samples], 48000), 0, 6) ?? 0;
+    // Only the blocks straddling the change still count
+    expect(loudness).toBeGreaterThan(-21.6);
+    expect(loudness).toBeLessThan(-21);
+  });
+
+  it('returns null for silence and ranges shorter than a block', () => {
+    expect(integratedLoudness(computeLoudnessProfile([new Float32Array(48000)], 48000), 0, 1)).toBeNull();
+    expect(integratedLoudness(computeLoudnessProfile([sine(1000, 1 / 8, 3, 48000)], 48000), 1, 1.3)).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { analyzeDecodedAudio, getChannels } from './audioDecoder';
+
+// ITU-R BS.1770 / EBU R128 integrated loudness. The card shows the loudness of
+// the selected segment; the render normalizes it with FFmpeg's loudnorm.
+
+const BLOCK_SEC = 0.4;      // gating block length
+const HOP_SEC = 0.1;        // 75% overlap between blocks
+const HOPS_PER_BLOCK = Math.round(BLOCK_SEC / HOP_SEC);
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+// loudnorm targets besides the integrated level
+export const LOUDNORM_TRUE_PEAK = -1.5;
+export const LOUDNORM_LRA = 11;
+
+export interface LoudnessProfile {
+  hopEnergy: Float32Array; // K-weighted mean square per hop, summed over channels
+  hopDuration: number;
+}
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+// K-weighting pre-filter (high shelf) and RLB high-pass for any sample rate,
+// same derivation as libebur128 so 48kHz matches the BS.1770 coefficients
+const kWeightingFilters = (sampleRate: number): Biquad[] => {
+  const shelf = (() => {
+    const k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+    const q = 0.7071752369554196;
+    const vh = Math.pow(10, 3.999843853973347 / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    const a0 = 1 + k / q + k * k;
+    return {
+      b0: (vh + (vb * k) / q + k * k) / a0,
+      b1: (2 * (k * k - vh)) / a0,
+      b2: (vh - (vb * k) / q + k * k) / a0,
+      a1: (2 * (k * k - 1)) / a0,
+      a2: (1 - k / q + k * k) / a0
+    };
+  })();
+
+  const highpass = (() => {
+    const k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+    const q = 0.5003270373238773;
+    const a0 = 1 + k / q + k * k;
+    return { b0: 1, b1: -2, b2: 1, a1: (2 * (k * k - 1)) / a0, a2: (1 - k / q + k * k) / a0 };
+  })();
+
+  return [shelf, highpass];
+};
+
+const applyBiquad = (input: Float32Array, f: Biquad): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    output[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return output;
+};
+
+/**
+ * K-weights the channels and stores the mean square energy per 100ms hop,
+ * so the loudness of any segment can be gated without touching the PCM again.
+ */
+export const computeLoudnessProfile = (channels: Float32Array[], sampleRate: number): LoudnessProfile => {
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const hopSamples = Math.max(1, Math.round(sampleRate * HOP_SEC));
+  const hopCount = Math.floor(length / hopSamples);
+  const hopEnergy = new Float32Array(hopCount);
+  const filters = kWeightingFilters(sampleRate);
+
+  for (const channel of channels) {
+    const weighted = filters.reduce(applyBiquad, channel);
+    for (let h = 0; h < hopCount; h++) {
+      let sum = 0;
+      for (let i = h * hopSamples; i < (h + 1) * hopSamples; i++) sum += weighted[i] * weighted[i];
+      hopEnergy[h] += sum / hopSamples;
+    }
+  }
+
+  return { hopEnergy, hopDuration: hopSamples / sampleRate };
+};
+
+const energyToLufs = (energy: number) => -0.691 + 10 * Math.log10(energy);
+
+/**
+ * Gated integrated loudness of [start, end) in LUFS, or null when the range is
+ * shorter than one block or entirely below the absolute gate.
+ */
+export const integratedLoudness = (profile: LoudnessProfile, start: number, end: number): number | null => {
+  const { hopEnergy, hopDuration } = profile;
+  const first = Math.max(0, Math.ceil(start / hopDuration - 1e-6));
+  const last = Math.min(hopEnergy.length, Math.floor(end / hopDuration + 1e-6)) - HOPS_PER_BLOCK;
+
+  const blocks: number[] = [];
+  for (let b = first; b <= last; b++) {
+    let energy = 0;
+    for (let h = b; h < b + HOPS_PER_BLOCK; h++) energy += hopEnergy[h];
+    energy /= HOPS_PER_BLOCK;
+    if (energy > 0 && energyToLufs(energy) > ABSOLUTE_GATE_LUFS) blocks.push(energy);
+  }
+  if (blocks.length === 0) return null;
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const relativeGate = energyToLufs(mean(blocks)) + RELATIVE_GATE_LU;
+  const gated = blocks.filter(energy => energyToLufs(energy) > relativeGate);
+  return energyToLufs(mean(gated.length > 0 ? gated : blocks));
+};
+
+// Values printed by `loudnorm=print_format=json` in the measuring pass
+export interface LoudnormMeasurement {
+  inputI: number;
+  inputTp: number;
+  inputLra: number;
+  inputThresh: number;
+  targetOffset: number;
+}
+
+/**
+ * loudnorm filter for a target integrated level. Without a measurement it is
+ * the analysis pass; with one it applies a linear gain computed from it.
+ */
+export const loudnormFilter = (target: number, measured?: LoudnormMeasurement | null): string => {
+  const base = `loudnorm=I=${target}:TP=${LOUDNORM_TRUE_PEAK}:LRA=${LOUDNORM_LRA}`;
+  if (!measured) return `${base}:print_format=json`;
+  return [
+    base,
+    `measured_I=${measured.inputI}`,
+    `measured_TP=${measured.inputTp}`,
+    `measured_LRA=${measured.inputLra}`,
+    `measured_thresh=${measured.inputThresh}`,
+    `offset=${measured.targetOffset}`,
+    'linear=true',
+    'print_format=summary'
+  ].join(':');
+};
+
+/**
+ * Extracts the JSON block printed by the analysis pass from the FFmpeg log.
+ * Returns null when it is missing or the input was silent (-inf values).
+ */
+export const parseLoudnormMeasurement = (log: string): LoudnormMeasurement | null => {
+  const marker = log.lastIndexOf('Parsed_loudnorm');
+  if (marker < 0) return null;
+  const open = log.indexOf('{', marker);
+  const close = log.indexOf('}', open);
+  if (open < 0 || close < 0) return null;
+
+  let stats: Record<string, string>;
+  try {
+    stats = JSON.parse(log.slice(open, close + 1));
+  } catch (e) {
+    return null;
+  }
+
+  const measurement: LoudnormMeasurement = {
+    inputI: parseFloat(stats.input_i),
+    inputTp: parseFloat(stats.input_tp),
+    inputLra: parseFloat(stats.input_lra),
+    inputThresh: parseFloat(stats.input_thresh),
+    targetOffset: parseFloat(stats.target_offset)
+  };
+  return Object.values(measurement).every(Number.isFinite) ? measurement : null;
+};
+
+const loudnessCache = new Map<string, Promise<LoudnessProfile>>();
+
+export const getTrackLoudness = (id: string, file: Blob): Promise<LoudnessProfile> => {
+  const cached = loudnessCache.get(id);
+  if (cached) return cached;
+
+  const pending = analyzeDecodedAudio(id, file, buffer =>
+    computeLoudnessProfile(getChannels(buffer), buffer.sampleRate)
+  );
+  pending.catch(() => loudnessCache.delete(id));
+  loudnessCache.set(id, pending);
+  return pending;
+};
+
+export const releaseTrackLoudness = (id: string) => {
+  loudnessCache.delete(id);
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { canCopyVideoStream, displaySize, outputFrameRate, pixelAspectRatio, probeVideoFile } from './mediaProbe';
+
+// Minimal MP4 writer: just the boxes the probe reads
+
+const u8 = (n: number) => [n & 0xff];
+const u16 = (n: number) => [(n >>> 8) & 0xff, n & 0xff];
+const u32 = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const ascii = (s: string) => Array.from(s, c => c.charCodeAt(0));
+const zeros = (n: number) => new Array<number>(n).fill(0);
+
+const box = (type: string, ...payload: number[][]): number[] => {
+  const body = payload.flat();
+  return [...u32(body.length + 8), ...ascii(type), ...body];
+};
+
+// 16.16 fixed-point display matrix for a clockwise rotation
+const rotationMatrix = (degrees: number) => {
+  const turn = (degrees / 90) % 4;
+  const [a, b] = [[1, 0], [0, 1], [-1, 0], [0, -1]][turn];
+  const fixed = (v: number) => u32((v * 65536) >>> 0);
+  return [...fixed(a), ...fixed(b), ...u32(0), ...fixed(-b), ...fixed(a), ...u32(0), ...u32(0), ...u32(0), ...u32(0x40000000)];
+};
+
+interface TestVideo {
+  width: number;
+  height: number;
+  rotation?: number;
+  pasp?: [number, number];
+  stts?: [number, number][]; // [sample count, duration] rows
+  timescale?: number;
+}
+
+const mp4 = ({ width, height, rotation = 0, pasp, stts = [[30, 1000]], timescale = 30000 }: TestVideo): Blob => {
+  const tkhd = box('tkhd', u32(0), zeros(36), rotationMatrix(rotation), u32(width << 16), u32(height << 16));
+  const mdhd = box('mdhd', u32(0), u32(0), u32(0), u32(timescale), u32(0), u32(0));
+  const hdlr = box('hdlr', u32(0), u32(0), ascii('vide'), zeros(12), u8(0));
+  const visualEntry = [...zeros(6), ...u16(1), ...zeros(16), ...u16(width), ...u16(height), ...zeros(50)];
+  const avc1 = box('avc1', visualEntry, pasp ? box('pasp', u32(pasp[0]), u32(pasp[1])) : []);
+  const stsd = box('stsd', u32(0), u32(1), avc1);
+  const sttsBox = box('stts', u32(0), u32(stts.length), stts.flatMap(([count, delta]) => [...u32(count), ...u32(delta)]));
+  const trak = box('trak', tkhd, box('mdia', mdhd, hdlr, box('minf', box('stbl', stsd, sttsBox))));
+  const ftyp = box('ftyp', ascii('isom'), u32(0), ascii('isom'));
+  return new Blob([new Uint8Array([...ftyp, ...box('moov', trak)])]);
+};
+
+describe('probeVideoFile', () => {
+  it('reads the coded size and codec of an MP4', async () => {
+    const probe = await probeVideoFile(mp4({ width: 1920, height: 1080 }));
+    expect(probe).toMatchObject({ container: 'mp4', videoCodec: 'h264', width: 1920, height: 1080, rotation: 0, sampleAspectRatio: 1 });
+  });
+
+  it.each([90, 180, 270])('reads a %i° display matrix', async (rotation) => {
+    const probe = await probeVideoFile(mp4({ width: 1920, height: 1080, rotation }));
+    expect(probe?.rotation).toBe(rotation);
+  });
+
+  it('reads the pixel aspect from pasp', async () => {
+    const probe = await probeVideoFile(mp4({ width: 1440, height: 1080, pasp: [4, 3] }));
+    expect(probe?.sampleAspectRatio).toBeCloseTo(4 / 3);
+  });
+
+  it('marks varying frame durations as variable frame rate', async () => {
+    const probe = await probeVideoFile(mp4({ width: 640, height: 480, stts: [[10, 1000], [10, 1500]] }));
+    expect(probe?.variableFrameRate).toBe(true);
+    expect(probe?.frameRate).toBeCloseTo(24);
+  });
+
+  it('keeps a constant rate when only the last frame differs', async () => {
+    const probe = await probeVideoFile(mp4({ width: 640, height: 480, stts: [[29, 1001], [1, 500]] }));
+    expect(probe?.variableFrameRate).toBe(false);
+  });
+});
+
+describe('displaySize', () => {
+  it.each([90, 270])('swaps width and height for %i° rotation', async (rotation) => {
+    const probe = await probeVideoFile(mp4({ width: 1920, height: 1080, rotation }));
+    expect(displaySize(probe)).toEqual({ width: 1080, height: 1920 });
+  });
+
+  it('keeps the coded size upside down', async () => {
+    const probe = await probeVideoFile(mp4({ width: 1920, height: 1080, rotation: 180 }));
+    expect(displaySize(probe)).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('stretches anamorphic frames to square pixels', async () => {
+    const probe = await probeVideoFile(mp4({ width: 1440, height: 1080, pasp: [4, 3] }));
+    expect(pixelAspectRatio(probe)).toBeCloseTo(4 / 3);
+    expect(displaySize(probe)).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('stretches before turning a rotated anamorphic frame', async () => {
+    const probe = await probeVideoFile(mp4({ width: 1440, height: 1080, pasp: [4, 3], rotation: 90 }));
+    expect(displaySize(probe)).toEqual({ width: 1080, height: 1920 });
+  });
+
+  it('treats rounding in the container as square pixels', async () => {
+    const probe = await probeVideoFile(mp4({ width: 1920, height: 1080, pasp: [1001, 1000] }));
+    expect(pixelAspectRatio(probe)).toBe(1);
+    expect(canCopyVideoStream(probe)).toBe(true);
+  });
+
+  it('never stream copies anamorphic video', async () => {
+    const probe = await probeVideoFile(mp4({ width: 1440, height: 1080, pasp: [4, 3] }));
+    expect(canCopyVideoStream(probe)).toBe(false);
+  });
+
+  it('is null without a probe', () => {
+    expect(displaySize(null)).toBeNull();
+  });
+});
+
+describe('outputFrameRate', () => {
+  it('keeps the source timing of constant rate video', async () => {
+    const probe = await probeVideoFile(mp4({ width: 640, height: 480 }));
+    expect(outputFrameRate(probe)).toBeNull();
+  });
+
+  it('conforms variable frame rate to the nearest standard rate', async () => {
+    // 20 frames over 25000/30000 s: 24 fps on average
+    const probe = await probeVideoFile(mp4({ width: 640, height: 480, stts: [[10, 1000], [10, 1500]] }));
+    expect(outputFrameRate(probe)).toBe(24);
+  });
+
+  it('picks 30 for a phone clip averaging 29 fps', async () => {
+    const probe = await probeVideoFile(mp4({ width: 640, height: 480, stts: [[20, 1000], [10, 1100]], timescale: 30000 }));
+    expect(outputFrameRate(probe)).toBe(30);
+  });
+});
@@ -0,0 +1,359 @@
+import { VideoContainer, VideoProbe } from '../types';
+import { Box, childBoxes, findBox, findPath, fourCC, readEntries, readMoov } from './isoBmff';
+
+// Reads the container header of a source video before anything is rendered:
+// which codecs it holds, whether it has sound, its rotation and frame rate.
+// MP4/MOV are read from the moov box, WebM/Matroska from the Tracks element.
+// The render uses it to choose between stream copy and re-encoding.
+
+// Only H.264 is copied into the MP4 outputs; everything else plays
+// unreliably in browsers and phone galleries once muxed into MP4
+const COPYABLE_VIDEO_CODECS = ['h264'];
+
+// Decoders compiled into the bundled FFmpeg core
+const DECODABLE_VIDEO_CODECS = ['h264', 'hevc', 'vp8', 'vp9', 'prores', 'mpeg4'];
+// Known codecs the core can't decode
+const UNSUPPORTED_VIDEO_CODECS = ['av1'];
+const DECODABLE_AUDIO_CODECS = ['aac', 'mp3', 'opus', 'vorbis', 'flac', 'alac', 'ac3', 'pcm'];
+
+const CODEC_LABELS: Record<string, string> = {
+  h264: 'H.264',
+  hevc: 'HEVC (H.265)',
+  vp8: 'VP8',
+  vp9: 'VP9',
+  av1: 'AV1',
+  prores: 'ProRes',
+  mpeg4: 'MPEG-4'
+};
+
+export const codecLabel = (codec: string) => CODEC_LABELS[codec] ?? codec;
+
+// Sample entry types of the stsd box
+const MP4_CODECS: Record<string, string> = {
+  avc1: 'h264', avc3: 'h264',
+  hvc1: 'hevc', hev1: 'hevc',
+  vp08: 'vp8', vp09: 'vp9', av01: 'av1',
+  apch: 'prores', apcn: 'prores', apcs: 'prores', apco: 'prores', ap4h: 'prores', ap4x: 'prores',
+  mp4v: 'mpeg4',
+  mp4a: 'aac', '.mp3': 'mp3', Opus: 'opus', fLaC: 'flac', alac: 'alac', 'ac-3': 'ac3', 'ec-3': 'eac3',
+  sowt: 'pcm', twos: 'pcm', lpcm: 'pcm', in24: 'pcm', in32: 'pcm', fl32: 'pcm'
+};
+
+// Matroska CodecID prefixes
+const MATROSKA_CODECS: [string, string][] = [
+  ['V_MPEG4/ISO/AVC', 'h264'], ['V_MPEGH/ISO/HEVC', 'hevc'], ['V_VP8', 'vp8'], ['V_VP9', 'vp9'],
+  ['V_AV1', 'av1'], ['V_PRORES', 'prores'], ['V_MPEG4/ISO', 'mpeg4'],
+  ['A_AAC', 'aac'], ['A_MPEG/L3', 'mp3'], ['A_OPUS', 'opus'], ['A_VORBIS', 'vorbis'], ['A_FLAC', 'flac'],
+  ['A_ALAC', 'alac'], ['A_AC3', 'ac3'], ['A_EAC3', 'eac3'], ['A_PCM', 'pcm']
+];
+
+const ISO_BMFF_TOP_BOXES = ['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pnot'];
+
+const emptyProbe = (container: VideoContainer): VideoProbe => ({
+  container, videoCodec: null, audioCodecs: [], width: 0, height: 0, sampleAspectRatio: 1,
+  rotation: 0, frameRate: null, variableFrameRate: false
+});
+
+const timescaleOf = (view: DataView, mdhd: Box) =>
+  view.getUint32(mdhd.start + (view.getUint8(mdhd.start) === 1 ? 20 : 12));
+
+/** Clockwise rotation of the tkhd display matrix, snapped to quarter turns. */
+const matrixRotation = (view: DataView, tkhd: Box): number => {
+  const matrix = tkhd.start + (view.getUint8(tkhd.start) === 1 ? 52 : 40);
+  if (matrix + 8 > tkhd.end) return 0;
+  const a = view.getInt32(matrix) / 65536;
+  const b = view.getInt32(matrix + 4) / 65536;
+  const quarters = Math.round(Math.atan2(b, a) / (Math.PI / 2));
+  return ((quarters % 4) + 4) % 4 * 90;
+};
+
+/** Coded size and pixel aspect (pasp box) of the first sample entry of a video stsd. */
+const visualSampleEntry = (view: DataView, stsd: Box) => {
+  const entry: Box = { type: 'entry', start: stsd.start + 16, end: Math.min(stsd.end, stsd.start + 8 + view.getUint32(stsd.start + 8)) };
+  if (entry.start + 78 > entry.end) return {};
+  const pasp = childBoxes(view, entry.start + 78, entry.end).find(box => box.type === 'pasp');
+  const hSpacing = pasp ? view.getUint32(pasp.start) : 0;
+  const vSpacing = pasp ? view.getUint32(pasp.start + 4) : 0;
+  return {
+    width: view.getUint16(entry.start + 24),
+    height: view.getUint16(entry.start + 26),
+    sampleAspectRatio: hSpacing > 0 && vSpacing > 0 ? hSpacing / vSpacing : 1
+  };
+};
+
+/** Average frame rate from the time-to-sample table, and whether frame durations vary. */
+const sampleTiming = (view: DataView, stts: Box, timescale: number) => {
+  const entries = readEntries(view, stts, 2);
+  const samples = entries.reduce((sum, [count]) => sum + count, 0);
+  const duration = entries.reduce((sum, [count, delta]) => sum + count * delta, 0);
+  // The last frame often gets a duration of its own, it doesn't make the file VFR
+  const deltas = entries
+    .filter(([count], i) => !(i === entries.length - 1 && count === 1 && entries.length > 1))
+    .map(([, delta]) => delta);
+  const shortest = deltas.reduce((min, d) => Math.min(min, d), Infinity);
+  const longest = deltas.reduce((max, d) => Math.max(max, d), 0);
+  return {
+    frameRate: samples > 0 && duration > 0 && timescale > 0 ? samples * timescale / duration : null,
+    variableFrameRate: deltas.length > 0 && longest > shortest * 1.01
+  };
+};
+
+const probeIsoBmff = async (file: Blob, container: VideoContainer): Promise<VideoProbe | null> => {
+  const view = await readMoov(file);
+  if (!view) return null;
+  const moov: Box = { type: 'moov', start: 8, end: view.byteLength };
+
+  const probe = emptyProbe(container);
+  childBoxes(view, moov.start, moov.end)
+    .filter(box => box.type === 'trak')
+    .forEach(trak => {
+      const hdlr = findPath(view, trak, ['mdia', 'hdlr']);
+      const stbl = findPath(view, trak, ['mdia', 'minf', 'stbl']);
+      const stsd = stbl && findBox(view, stbl, 'stsd');
+      if (!hdlr || !stbl || !stsd || stsd.start + 16 > stsd.end) return;
+      const sampleEntry = fourCC(view, stsd.start + 12);
+      const codec = MP4_CODECS[sampleEntry] ?? sampleEntry.trim();
+
+      const handler = fourCC(view, hdlr.start + 8);
+      if (handler === 'soun') {
+        probe.audioCodecs.push(codec);
+      } else if (handler === 'vide' && probe.videoCodec === null) {
+        probe.videoCodec = codec;
+        Object.assign(probe, visualSampleEntry(view, stsd));
+        const tkhd = findBox(view, trak, 'tkhd');
+        if (tkhd) probe.rotation = matrixRotation(view, tkhd);
+        const mdhd = findPath(view, trak, ['mdia', 'mdhd']);
+        const stts = findBox(view, stbl, 'stts');
+        if (mdhd && stts) Object.assign(probe, sampleTiming(view, stts, timescaleOf(view, mdhd)));
+      }
+    });
+  return probe;
+};
+
+// EBML element ids
+const EBML_HEADER = 0x1a45dfa3;
+const DOC_TYPE = 0x4282;
+const SEGMENT = 0x18538067;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const DEFAULT_DURATION = 0x23e383;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const DISPLAY_WIDTH = 0x54b0;
+const DISPLAY_HEIGHT = 0x54ba;
+const DISPLAY_UNIT = 0x54b2;
+
+const TRACK_TYPE_VIDEO = 1;
+const TRACK_TYPE_AUDIO = 2;
+
+// Tracks come before the first cluster, well within the start of the file
+const MATROSKA_HEADER_BYTES = 1024 * 1024;
+
+interface Element {
+  id: number;
+  start: number; // offset of the payload
+  end: number;
+}
+
+/** Variable-length integer: ids keep their length marker, sizes drop it (all ones = unknown size). */
+const readVint = (bytes: Uint8Array, at: number, keepMarker: boolean): { value: number; length: number } | null => {
+  const first = bytes[at];
+  if (first === undefined || first === 0) return null;
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) length++;
+  if (at + length > bytes.length) return null;
+  let value = keepMarker ? first : first & (0xff >> length);
+  let unknown = !keepMarker && value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[at + i];
+    if (bytes[at + i] !== 0xff) unknown = false;
+  }
+  return { value: unknown ? -1 : value, length };
+};
+
+/** Child elements of [start, end); elements cut off by the end of the buffer are clamped. */
+const childElements = (bytes: Uint8Array, start: number, end: number): Element[] => {
+  const elements: Element[] = [];
+  let at = start;
+  while (at < end) {
+    const id = readVint(bytes, at, true);
+    const size = id && readVint(bytes, at + id.length, false);
+    if (!id || !size) break;
+    const payload = at + id.length + size.length;
+    const elementEnd = size.value < 0 ? end : Math.min(end, payload + size.value);
+    elements.push({ id: id.value, start: payload, end: elementEnd });
+    at = size.value < 0 ? end : payload + size.value;
+  }
+  return elements;
+};
+
+const readUint = (bytes: Uint8Array, element: Element) =>
+  bytes.subarray(element.start, element.end).reduce((value, byte) => value * 256 + byte, 0);
+
+const readString = (bytes: Uint8Array, element: Element) =>
+  new TextDecoder().decode(bytes.subarray(element.start, element.end)).replace(/\0+$/, '');
+
+const matroskaCodec = (codecId: string) =>
+  MATROSKA_CODECS.find(([prefix]) => codecId.startsWith(prefix))?.[1] ?? codecId;
+
+/** Coded size and pixel aspect of a track's Video element. */
+const matroskaFrame = (bytes: Uint8Array, video: Element) => {
+  const fields = childElements(bytes, video.start, video.end);
+  const value = (id: number) => {
+    const element = fields.find(e => e.id === id);
+    return element ? readUint(bytes, element) : null;
+  };
+  const width = value(PIXEL_WIDTH) ?? 0;
+  const height = value(PIXEL_HEIGHT) ?? 0;
+  const displayWidth = value(DISPLAY_WIDTH);
+  const displayHeight = value(DISPLAY_HEIGHT);
+  // Display size in pixels (unit 0, the default) or as an aspect ratio (unit 3)
+  const unit = value(DISPLAY_UNIT) ?? 0;
+  const sampleAspectRatio = (unit === 0 || unit === 3) && displayWidth && displayHeight && width && height
+    ? (displayWidth / displayHeight) / (width / height)
+    : 1;
+  return { width, height, sampleAspectRatio };
+};
+
+const probeMatroska = async (file: Blob): Promise<VideoProbe | null> => {
+  const bytes = new Uint8Array(await file.slice(0, MATROSKA_HEADER_BYTES).arrayBuffer());
+  const top = childElements(bytes, 0, bytes.length);
+  const header = top.find(e => e.id === EBML_HEADER);
+  const segment = top.find(e => e.id === SEGMENT);
+  if (!header || !segment) return null;
+
+  const docType = childElements(bytes, header.start, header.end).find(e => e.id === DOC_TYPE);
+  const tracks = childElements(bytes, segment.start, segment.end).find(e => e.id === TRACKS);
+  if (!tracks) return null;
+
+  const probe = emptyProbe(docType && readString(bytes, docType) === 'webm' ? 'webm' : 'matroska');
+  childElements(bytes, tracks.start, tracks.end)
+    .filter(e => e.id === TRACK_ENTRY)
+    .forEach(entry => {
+      const fields = childElements(bytes, entry.start, entry.end);
+      const field = (id: number) => fields.find(e => e.id === id);
+      const type = field(TRACK_TYPE);
+      const codecId = field(CODEC_ID);
+      if (!type || !codecId) return;
+      const codec = matroskaCodec(readString(bytes, codecId));
+
+      if (readUint(bytes, type) === TRACK_TYPE_AUDIO) {
+        probe.audioCodecs.push(codec);
+      } else if (readUint(bytes, type) === TRACK_TYPE_VIDEO && probe.videoCodec === null) {
+        probe.videoCodec = codec;
+        // Without a default frame duration (e.g. MediaRecorder files) every frame carries its own time
+        const frameDuration = field(DEFAULT_DURATION);
+        if (frameDuration) probe.frameRate = 1e9 / readUint(bytes, frameDuration);
+        else probe.variableFrameRate = true;
+        const video = field(VIDEO);
+        if (video) Object.assign(probe, matroskaFrame(bytes, video));
+      }
+    });
+  return probe;
+};
+
+/**
+ * Probes a source video from its container header. Resolves with null for
+ * containers other than MP4/MOV/WebM/Matroska or files whose header can't
+ * be read; those still go through FFmpeg, always re-encoded.
+ */
+export const probeVideoFile = async (file: Blob): Promise<VideoProbe | null> => {
+  try {
+    const head = new DataView(await file.slice(0, 12).arrayBuffer());
+    if (head.byteLength < 12) return null;
+    if (head.getUint32(0) === EBML_HEADER) return await probeMatroska(file);
+    if (ISO_BMFF_TOP_BOXES.includes(fourCC(head, 4))) {
+      // Old QuickTime files start without an ftyp box
+      const quickTime = fourCC(head, 4) !== 'ftyp' || fourCC(head, 8) === 'qt  ';
+      return await probeIsoBmff(file, quickTime ? 'mov' : 'mp4');
+    }
+  } catch (e) {
+    // Truncated or corrupt header, handled like an unknown container
+  }
+  return null;
+};
+
+// Pixel aspects this close to 1 are rounding in the container, not anamorphic video
+const SQUARE_PIXEL_TOLERANCE = 0.01;
+
+export const hasSquarePixels = (probe: VideoProbe | null): boolean =>
+  !probe || Math.abs(probe.sampleAspectRatio - 1) < SQUARE_PIXEL_TOLERANCE;
+
+/** Pixel aspect the render corrects for, exactly 1 for square pixels. */
+export const pixelAspectRatio = (probe: VideoProbe | null): number =>
+  probe && !hasSquarePixels(probe) ? probe.sampleAspectRatio : 1;
+
+/**
+ * Whether the video stream can go into the MP4 output without re-encoding.
+ * Anamorphic video is always re-encoded: phone galleries and social apps
+ * ignore the pixel aspect and would show it stretched.
+ */
+export const canCopyVideoStream = (probe: VideoProbe | null): boolean =>
+  !!probe?.videoCodec && COPYABLE_VIDEO_CODECS.includes(probe.videoCodec) && hasSquarePixels(probe);
+
+/**
+ * Frame size as displayed: the coded size stretched by the pixel aspect,
+ * then turned by the rotation. Null when the probe doesn't know the size.
+ */
+export const displaySize = (probe: VideoProbe | null): { width: number; height: number } | null => {
+  if (!probe || probe.width <= 0 || probe.height <= 0) return null;
+  const aspect = pixelAspectRatio(probe);
+  const stretched = { width: aspect === 1 ? probe.width : Math.round(probe.width * aspect / 2) * 2, height: probe.height };
+  return probe.rotation === 90 || probe.rotation === 270
+    ? { width: stretched.height, height: stretched.width }
+    : stretched;
+};
+
+// Rates a variable frame rate source is conformed to when re-encoded
+const STANDARD_FRAME_RATES = [24, 25, 30, 50, 60];
+const DEFAULT_FRAME_RATE = 30;
+
+/**
+ * Constant output rate for variable frame rate sources: the standard rate
+ * closest to the average, so phone footage recorded at a nominal 30 or 60
+ * doesn't end up at 29.3. Null for constant rate sources, which keep theirs.
+ */
+export const outputFrameRate = (probe: VideoProbe | null): number | null => {
+  if (!probe?.variableFrameRate) return null;
+  const average = probe.frameRate ?? DEFAULT_FRAME_RATE;
+  return STANDARD_FRAME_RATES.reduce((best, rate) =>
+    Math.abs(Math.log(rate / average)) < Math.abs(Math.log(best / average)) ? rate : best
+  );
+};
+
+/** Whether the source has sound; unknown containers are assumed to. */
+export const hasAudioStream = (probe: VideoProbe | null): boolean =>
+  !probe || probe.audioCodecs.length > 0;
+
+export interface ProbeReview {
+  error: string | null; // the file can't be rendered at all
+  warnings: string[];   // it can, but the user should know before queuing it
+}
+
+/** What to tell the user about a source video before it joins the project. */
+export const reviewProbe = (probe: VideoProbe | null): ProbeReview => {
+  if (!probe) {
+    return { error: null, warnings: ["Formato de arquivo não reconhecido: o vídeo será recodificado e a renderização pode falhar."] };
+  }
+  const { videoCodec, audioCodecs } = probe;
+  if (!videoCodec) return { error: "nenhuma faixa de vídeo encontrada no arquivo.", warnings: [] };
+  if (UNSUPPORTED_VIDEO_CODECS.includes(videoCodec)) {
+    return { error: `vídeo em ${codecLabel(videoCodec)} não é suportado. Converta para H.264 ou HEVC.`, warnings: [] };
+  }
+
+  const warnings: string[] = [];
+  if (!DECODABLE_VIDEO_CODECS.includes(videoCodec)) {
+    warnings.push(`Codec de vídeo desconhecido (${videoCodec}): a renderização pode falhar.`);
+  } else if (!canCopyVideoStream(probe)) {
+    warnings.push(`Vídeo em ${codecLabel(videoCodec)}: será recodificado para H.264 em todas as saídas, o que deixa a renderização mais lenta.`);
+  }
+  if (audioCodecs.length === 0) {
+    warnings.push("Vídeo sem áudio: o som original não poderá ser mixado, só a música estará no resultado.");
+  } else if (!DECODABLE_AUDIO_CODECS.includes(audioCodecs[0])) {
+    warnings.push(`Áudio em formato não suportado (${audioCodecs[0]}): mixar o som original pode falhar.`);
+  }
+  return { error: null, warnings };
+};
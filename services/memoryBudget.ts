@@ -0,0 +1,116 @@
+import { OutputProfile, RenderJobSpec } from '../types';
+import { planVideoFilter, resolveOutputSize } from './ffmpegArgs';
+
+// Where a render's memory goes in the bundled @ffmpeg/core-mt 0.12:
+// - the wasm heap is fixed at 1 GB (shared memory can't grow) and holds the
+//   decoded frames of the decoder, the filter graph and x264's lookahead and threads
+// - the source and music are mounted with WORKERFS and read from disk as
+//   FFmpeg goes, so their size doesn't count
+// - MEMFS keeps the output as typed arrays in the worker's JS heap, next to
+//   that wasm heap, until it is moved to the output store
+// Estimates are deliberately rough and on the high side: refusing a job up
+// front beats the tab crashing halfway through a batch.
+
+const MB = 1024 * 1024;
+
+const WASM_HEAP_BYTES = 1024 * MB;
+// Code, codec tables and thread stacks
+const CORE_OVERHEAD_BYTES = 384 * MB;
+const FRAME_BUDGET_BYTES = WASM_HEAP_BYTES - CORE_OVERHEAD_BYTES;
+const FILE_BUDGET_BYTES = 1536 * MB;
+
+// Frames alive at once across decoder, filters and encoder threads, and
+// bytes per pixel with room for 4:2:2 and 10-bit sources
+const FRAME_BUFFERS = 32;
+const FRAME_BYTES_PER_PIXEL = 2;
+
+// x264 output at CRF 23, doubling every 6 CRF steps down
+const BITS_PER_PIXEL_AT_CRF_23 = 0.15;
+const DEFAULT_FRAME_RATE = 30;
+
+// Output sizes tried, relative to the profile, before a job is refused
+const DOWNSIZE_SCALES = [0.75, 0.5];
+
+export interface MemoryEstimate {
+  files: number;  // bytes kept in MEMFS during the job (the output)
+  frames: number; // bytes of frame buffers in the wasm heap
+}
+
+export type MemoryPlan =
+  | { status: 'ok'; job: RenderJobSpec }
+  | { status: 'downsized'; job: RenderJobSpec; message: string }
+  | { status: 'refused'; message: string };
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : `${Math.round(bytes / MB)} MB`;
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+const bitrateOf = (value: string) => parseFloat(value) * (/k$/i.test(value) ? 1000 : /m$/i.test(value) ? 1e6 : 1);
+
+/** Rough size of the rendered file: the source itself when stream copied, x264's output otherwise. */
+const outputBytes = (job: RenderJobSpec, width: number, height: number, copy: boolean) => {
+  const audio = bitrateOf(job.profile.audioBitrate) * job.duration / 8;
+  if (copy) return job.video.file.size + audio;
+  const bitsPerPixel = BITS_PER_PIXEL_AT_CRF_23 * 2 ** ((23 - job.profile.videoCrf) / 6);
+  const frameRate = job.video.frameRate ?? DEFAULT_FRAME_RATE;
+  return width * height * frameRate * bitsPerPixel * job.duration / 8 + audio;
+};
+
+export const estimateJobMemory = (job: RenderJobSpec): MemoryEstimate => {
+  const { filter, width, height } = planVideoFilter(job);
+  const copy = filter === null;
+  const files = outputBytes(job, width, height, copy);
+  // A stream copy never decodes a frame
+  const frames = copy ? 0 : (job.video.width * job.video.height + width * height) * FRAME_BYTES_PER_PIXEL * FRAME_BUFFERS;
+  return { files, frames };
+};
+
+const fits = (estimate: MemoryEstimate) =>
+  estimate.files <= FILE_BUDGET_BYTES && estimate.frames <= FRAME_BUDGET_BYTES;
+
+const scaledProfile = (profile: OutputProfile, width: number, height: number, scale: number): OutputProfile => ({
+  ...profile,
+  width: even(width * scale),
+  height: even(height * scale)
+});
+
+/**
+ * Checks a job against the memory FFmpeg has in the browser before it runs.
+ * Jobs over budget are re-planned at a smaller output size when that is
+ * enough, and refused with the reason otherwise.
+ */
+export const planJobMemory = (job: RenderJobSpec): MemoryPlan => {
+  const name = job.video.file.name;
+  const estimate = estimateJobMemory(job);
+  if (fits(estimate)) return { status: 'ok', job };
+
+  // The decoded source frames don't shrink with the output
+  const sourceFrames = job.video.width * job.video.height * FRAME_BYTES_PER_PIXEL * FRAME_BUFFERS;
+  if (sourceFrames > FRAME_BUDGET_BYTES) {
+    return {
+      status: 'refused',
+      message: `"${name}" tem ${job.video.width}x${job.video.height}, resolução grande demais para a memória do FFmpeg no navegador. Reduza o vídeo antes de enviar.`
+    };
+  }
+
+  const { width, height } = resolveOutputSize(job.profile, job.video.width, job.video.height);
+  for (const scale of DOWNSIZE_SCALES) {
+    const profile = scaledProfile(job.profile, width, height, scale);
+    const downsized = { ...job, profile };
+    const smaller = estimateJobMemory(downsized);
+    // A stream copy would bring back the full-size output
+    if (smaller.frames > 0 && fits(smaller)) {
+      return {
+        status: 'downsized',
+        job: downsized,
+        message: `Renderizado em ${profile.width}x${profile.height} em vez de ${width}x${height} para caber na memória do navegador.`
+      };
+    }
+  }
+
+  return {
+    status: 'refused',
+    message: `"${name}" precisa de cerca de ${formatBytes(Math.max(estimate.files, estimate.frames))} para renderizar, mais do que o navegador consegue usar. Encurte o trecho ou use um formato menor.`
+  };
+};
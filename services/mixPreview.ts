@@ -0,0 +1,135 @@
+import { AudioMixSettings } from '../types';
+import { DUCKING_THRESHOLD } from '../constants';
+import { duckingRatio } from './ffmpegArgs';
+
+// Gain changes ramp with these time constants, close to the render's attack/release
+const DUCK_ATTACK_SEC = 0.02;
+const DUCK_RELEASE_SEC = 0.4;
+const FADE_SMOOTHING_SEC = 0.01;
+
+// Output timeline being previewed, with its fades
+export interface PreviewSegment {
+  duration: number; // length of the output
+  fadeIn: number;
+  fadeOut: number;
+  musicEnd: number; // where the arranged music runs out (= duration unless padded)
+  padFade: number;  // fade before that point
+}
+
+/** Linear fade gain (0..1) at a position of the output, same shape as `afade`. */
+export const fadeGainAt = (position: number, segment: PreviewSegment): number => {
+  const fadeIn = Math.min(segment.fadeIn, segment.duration / 2);
+  const fadeOut = Math.min(segment.fadeOut, segment.duration / 2);
+  let level = 1;
+  if (fadeIn > 0 && position < fadeIn) level = Math.min(level, Math.max(0, position / fadeIn));
+  const untilEnd = segment.duration - position;
+  if (fadeOut > 0 && untilEnd < fadeOut) level = Math.min(level, Math.max(0, untilEnd / fadeOut));
+  const untilSilence = segment.musicEnd - position;
+  if (segment.padFade > 0 && untilSilence < segment.padFade) level = Math.min(level, Math.max(0, untilSilence / segment.padFade));
+  return level;
+};
+
+/**
+ * Live Web Audio version of the render's audio graph for the track preview:
+ * music and original sound at their gains, with the music ducked while the
+ * voice band of the original is above the threshold, and the fades applied
+ * at the output position reported by `position`.
+ */
+export class MixPreview {
+  private ctx: AudioContext;
+  private musicGain: GainNode;
+  private fadeGain: GainNode;
+  private duckGain: GainNode;
+  private originalGain: GainNode;
+  private analyser: AnalyserNode;
+  private levels: Float32Array<ArrayBuffer>;
+  private settings: AudioMixSettings;
+  private segment: PreviewSegment;
+  private position: () => number;
+  private frame = 0;
+
+  constructor(
+    music: HTMLMediaElement,
+    original: HTMLMediaElement,
+    settings: AudioMixSettings,
+    segment: PreviewSegment,
+    position: () => number
+  ) {
+    this.ctx = new AudioContext();
+    this.position = position;
+    this.settings = settings;
+    this.segment = segment;
+
+    this.musicGain = this.ctx.createGain();
+    this.fadeGain = this.ctx.createGain();
+    this.duckGain = this.ctx.createGain();
+    this.originalGain = this.ctx.createGain();
+    this.ctx.createMediaElementSource(music).connect(this.musicGain).connect(this.fadeGain).connect(this.duckGain).connect(this.ctx.destination);
+
+    const originalSource = this.ctx.createMediaElementSource(original);
+    originalSource.connect(this.originalGain).connect(this.ctx.destination);
+
+    // Same voice band the render keys the compressor on
+    const highpass = new BiquadFilterNode(this.ctx, { type: 'highpass', frequency: 200 });
+    const lowpass = new BiquadFilterNode(this.ctx, { type: 'lowpass', frequency: 3500 });
+    this.analyser = new AnalyserNode(this.ctx, { fftSize: 1024 });
+    originalSource.connect(highpass).connect(lowpass).connect(this.analyser);
+    this.levels = new Float32Array(this.analyser.fftSize);
+
+    this.update(settings, segment);
+  }
+
+  update(settings: AudioMixSettings, segment: PreviewSegment) {
+    this.settings = settings;
+    this.segment = segment;
+    this.musicGain.gain.value = settings.musicGain;
+    this.originalGain.gain.value = settings.originalGain;
+    if (!settings.ducking || settings.originalGain <= 0) this.duckGain.gain.value = 1;
+  }
+
+  async start() {
+    await this.ctx.resume();
+    cancelAnimationFrame(this.frame);
+    this.watch();
+  }
+
+  stop() {
+    cancelAnimationFrame(this.frame);
+    this.duckGain.gain.cancelScheduledValues(this.ctx.currentTime);
+    this.duckGain.gain.value = 1;
+    this.fadeGain.gain.cancelScheduledValues(this.ctx.currentTime);
+    this.fadeGain.gain.value = 1;
+  }
+
+  close() {
+    this.stop();
+    this.ctx.close();
+  }
+
+  private watch = () => {
+    const fade = fadeGainAt(this.position(), this.segment);
+    this.fadeGain.gain.setTargetAtTime(fade, this.ctx.currentTime, FADE_SMOOTHING_SEC);
+    this.watchDucking();
+    this.frame = requestAnimationFrame(this.watch);
+  };
+
+  // Approximates sidechaincompress: above the threshold the level is divided by the ratio
+  private watchDucking() {
+    const { ducking, duckingAmount, originalGain } = this.settings;
+    if (ducking && originalGain > 0) {
+      this.analyser.getFloatTimeDomainData(this.levels);
+      let sum = 0;
+      for (let i = 0; i < this.levels.length; i++) sum += this.levels[i] * this.levels[i];
+      const rms = Math.sqrt(sum / this.levels.length);
+
+      let target = 1;
+      if (rms > DUCKING_THRESHOLD) {
+        const overDb = 20 * Math.log10(rms / DUCKING_THRESHOLD);
+        const reductionDb = overDb - overDb / duckingRatio(duckingAmount);
+        target = Math.pow(10, -reductionDb / 20);
+      }
+      const current = this.duckGain.gain.value;
+      this.duckGain.gain.setTargetAtTime(target, this.ctx.currentTime, target < current ? DUCK_ATTACK_SEC : DUCK_RELEASE_SEC);
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { Box, childBoxes, findBox, findPath, fourCC, readEntries, readMoov, readUint64 } from './isoBmff';
+
+// Lists the presentation times of the video keyframes of an MP4/MOV file, so
+// trims can be snapped to them and rendered by stream copy.
+
+interface TimeToSample {
+  count: number;
+  delta: number;
+}
+
+// Throws a RangeError when a box is cut short
+const parseKeyframeTimes = (view: DataView): number[] | null => {
+  const moov: Box = { type: 'moov', start: 8, end: view.byteLength };
+
+  const mvhd = findBox(view, moov, 'mvhd');
+  const movieTimescale = mvhd
+    ? view.getUint32(mvhd.start + (view.getUint8(mvhd.start) === 1 ? 20 : 12))
+    : 1000;
+
+  const videoTrak = childBoxes(view, moov.start, moov.end)
+    .filter(box => box.type === 'trak')
+    .find(trak => {
+      const hdlr = findPath(view, trak, ['mdia', 'hdlr']);
+      return hdlr ? fourCC(view, hdlr.start + 8) === 'vide' : false;
+    });
+  if (!videoTrak) return null;
+
+  const mdhd = findPath(view, videoTrak, ['mdia', 'mdhd']);
+  const stbl = findPath(view, videoTrak, ['mdia', 'minf', 'stbl']);
+  if (!mdhd || !stbl) return null;
+  const timescale = view.getUint32(mdhd.start + (view.getUint8(mdhd.start) === 1 ? 20 : 12));
+
+  const stts = findBox(view, stbl, 'stts');
+  if (!stts || timescale === 0) return null;
+  const timeToSample: TimeToSample[] = readEntries(view, stts, 2).map(([count, delta]) => ({ count, delta }));
+  const sampleCount = timeToSample.reduce((sum, e) => sum + e.count, 0);
+  if (sampleCount === 0) return null;
+
+  // No stss: every sample is a sync sample
+  const stss = findBox(view, stbl, 'stss');
+  const syncSamples = stss
+    ? readEntries(view, stss, 1).map(([n]) => n - 1)
+    : Array.from({ length: sampleCount }, (_, i) => i);
+
+  // Composition offsets, expanded lazily per sync sample
+  const ctts = findBox(view, stbl, 'ctts');
+  const compositionOffsets = ctts ? readEntries(view, ctts, 2) : [];
+  const compositionOffsetOf = (sample: number) => {
+    let index = 0;
+    for (const [count, offset] of compositionOffsets) {
+      if (sample < index + count) return offset;
+      index += count;
+    }
+    return 0;
+  };
+
+  // Edit list: an initial empty edit delays the track, media_time skips into it
+  let presentationShift = 0;
+  const elst = findPath(view, videoTrak, ['edts', 'elst']);
+  if (elst) {
+    const version = view.getUint8(elst.start);
+    const entrySize = version === 1 ? 20 : 12;
+    const count = view.getUint32(elst.start + 4);
+    for (let i = 0; i < count; i++) {
+      const at = elst.start + 8 + i * entrySize;
+      const segmentDuration = version === 1 ? readUint64(view, at) : view.getUint32(at);
+      const mediaTime = version === 1 ? view.getInt32(at + 12) : view.getInt32(at + 4);
+      if (mediaTime === -1) {
+        presentationShift += segmentDuration / movieTimescale;
+      } else {
+        presentationShift -= mediaTime / timescale;
+        break;
+      }
+    }
+  }
+
+  const times: number[] = [];
+  let sample = 0;
+  let decodeTime = 0;
+  let syncIndex = 0;
+  const sortedSync = [...syncSamples].sort((a, b) => a - b);
+  for (const entry of timeToSample) {
+    for (let i = 0; i < entry.count && syncIndex < sortedSync.length; i++, sample++) {
+      if (sample === sortedSync[syncIndex]) {
+        const pts = (decodeTime + compositionOffsetOf(sample)) / timescale + presentationShift;
+        // Microsecond precision, the resolution FFmpeg seeks with
+        times.push(Math.max(0, Math.round(pts * 1e6) / 1e6));
+        syncIndex++;
+      }
+      decodeTime += entry.delta;
+    }
+  }
+
+  return times.sort((a, b) => a - b);
+};
+
+/**
+ * Keyframe presentation times of the first video track, in seconds and
+ * ascending. Returns null for files that aren't MP4/MOV or can't be read
+ * (e.g. fragmented MP4 without a sample table).
+ */
+export const readKeyframeTimes = async (file: Blob): Promise<number[] | null> => {
+  try {
+    const view = await readMoov(file);
+    return view ? parseKeyframeTimes(view) : null;
+  } catch (e) {
+    // Truncated or corrupt boxes read past the end of the view; the trimmer just won't snap
+    return null;
+  }
+};
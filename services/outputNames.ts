@@ -0,0 +1,65 @@
+import { ProcessedResult } from '../types';
+
+// Filenames of the rendered videos, built from a template such as
+// "{video}-{track}-{profile}". Tokens:
+//   {video}   source video name, without extension
+//   {track}   audio track name, without extension
+//   {start}   where the music starts, e.g. 1m05s
+//   {profile} output profile id
+//   {index}   position in the gallery, zero padded
+export const FILENAME_TOKENS = ['video', 'track', 'start', 'profile', 'index'] as const;
+
+export type FilenameToken = typeof FILENAME_TOKENS[number];
+
+const MAX_BASENAME_LENGTH = 120;
+
+export const stripExtension = (name: string) => name.replace(/\.[a-z0-9]{1,5}$/i, '');
+
+/** Makes a string safe as a filename on every OS: no reserved characters, no spaces, bounded length. */
+export const sanitizeFilename = (name: string): string => {
+  const cleaned = name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_')
+    .replace(/\s+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^[.\-_]+|[.\-_]+$/g, '')
+    .slice(0, MAX_BASENAME_LENGTH);
+  return cleaned || 'video';
+};
+
+export const formatStartToken = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}m${(total % 60).toString().padStart(2, '0')}s`;
+};
+
+const tokenValues = (result: ProcessedResult, index: number, total: number): Record<FilenameToken, string> => ({
+  video: stripExtension(result.videoName),
+  track: stripExtension(result.audioTrackName),
+  start: formatStartToken(result.audioStartTime),
+  profile: result.profileId,
+  index: (index + 1).toString().padStart(String(total).length, '0')
+});
+
+/** Template with the tokens of one result filled in; unknown tokens are left as typed. */
+export const applyFilenameTemplate = (template: string, result: ProcessedResult, index: number, total: number): string => {
+  const values = tokenValues(result, index, total);
+  return template.replace(/\{(\w+)\}/g, (match, token: string) =>
+    (FILENAME_TOKENS as readonly string[]).includes(token) ? values[token as FilenameToken] : match
+  );
+};
+
+/**
+ * Final .mp4 filename of every result, by result id. Names that collide
+ * (ignoring case, as most filesystems do) get a numeric suffix.
+ */
+export const resultFilenames = (results: ProcessedResult[], template: string): Map<string, string> => {
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+  results.forEach((result, i) => {
+    const base = sanitizeFilename(applyFilenameTemplate(template, result, i, results.length));
+    let name = `${base}.mp4`;
+    for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base}-${n}.mp4`;
+    taken.add(name.toLowerCase());
+    names.set(result.id, name);
+  });
+  return names;
+};
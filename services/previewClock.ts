@@ -0,0 +1,79 @@
+// Shared clock of the pre-render preview. The output position runs on one
+// timer and every media element of the preview (picture, music, original
+// sound) is steered to where it should be at that position: seeked when it
+// is far off, sped up or slowed down slightly when it is close, so they stay
+// within a frame of each other without audible jumps.
+
+// Beyond this an element is seeked instead of nudged
+const SEEK_THRESHOLD_SEC = 0.2;
+// Drift is absorbed over about this long, within ±5% of normal speed
+const CORRECTION_WINDOW_SEC = 0.5;
+const MAX_RATE_CORRECTION = 0.05;
+
+export type DriftCorrection = { seek: number } | { rate: number };
+
+/**
+ * How to bring an element at `current` back to `target`. Within half a frame
+ * it plays at normal speed, so corrections stop before they overshoot.
+ */
+export const correctDrift = (current: number, target: number, frameDuration: number): DriftCorrection => {
+  const drift = current - target;
+  if (Math.abs(drift) > SEEK_THRESHOLD_SEC) return { seek: target };
+  if (Math.abs(drift) < frameDuration / 2) return { rate: 1 };
+  const correction = Math.min(MAX_RATE_CORRECTION, Math.abs(drift) / CORRECTION_WINDOW_SEC);
+  return { rate: drift > 0 ? 1 - correction : 1 + correction };
+};
+
+/** Applies a correction to a playing element. */
+export const followClock = (element: HTMLMediaElement, target: number, frameDuration: number) => {
+  const correction = correctDrift(element.currentTime, target, frameDuration);
+  if ('seek' in correction) {
+    element.currentTime = correction.seek;
+    element.playbackRate = 1;
+  } else if (element.playbackRate !== correction.rate) {
+    element.playbackRate = correction.rate;
+  }
+};
+
+/** Output position of the preview, from 0 to the output duration. */
+export class PreviewClock {
+  private startedAt: number | null = null; // timer reading when playback (re)started
+  private offset = 0;                      // output position at that reading
+
+  constructor(private duration: number, private readonly now: () => number = () => performance.now() / 1000) {}
+
+  get playing() {
+    return this.startedAt !== null;
+  }
+
+  position(): number {
+    if (this.startedAt === null) return this.offset;
+    return Math.min(this.duration, this.offset + this.now() - this.startedAt);
+  }
+
+  ended() {
+    return this.position() >= this.duration;
+  }
+
+  play() {
+    if (this.playing) return;
+    if (this.offset >= this.duration) this.offset = 0;
+    this.startedAt = this.now();
+  }
+
+  pause() {
+    this.offset = this.position();
+    this.startedAt = null;
+  }
+
+  seek(position: number) {
+    this.offset = Math.min(this.duration, Math.max(0, position));
+    if (this.playing) this.startedAt = this.now();
+  }
+
+  setDuration(duration: number) {
+    this.offset = Math.min(this.position(), duration);
+    if (this.playing) this.startedAt = this.now();
+    this.duration = duration;
+  }
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILENAME_TEMPLATE } from '../constants';
+import { importedSnapshot, migrateManifest, parseManifest, PROJECT_FILE_FORMAT, PROJECT_FILE_VERSION, ProjectFileError, relinkMedia } from './projectFile';
+
+const media = (name: string) => ({ name, type: 'video/mp4', size: 1000, fingerprint: 'abc', path: null });
+
+// A manifest as version 1 of the app wrote it
+const v1Manifest = () => ({
+  format: PROJECT_FILE_FORMAT,
+  version: 1,
+  name: 'Verão',
+  exportedAt: '2024-01-01T00:00:00.000Z',
+  videos: [{
+    id: 'v1',
+    duration: 12,
+    width: 1080,
+    height: 1920,
+    reframe: [{ time: 1, x: 0.3, y: 0.5 }],
+    trimStart: 0,
+    trimEnd: 12,
+    keyframes: [0, 2, 4],
+    media: media('clip.mp4')
+  }],
+  activeVideoId: 'v1',
+  tracks: [{
+    id: 't1',
+    name: 'song',
+    duration: 180,
+    startTime: 30,
+    snapToBeat: true,
+    mix: { originalGain: 0, musicGain: 1, ducking: false, duckingAmount: 0.5 },
+    fadeIn: 0.5,
+    fadeOut: 1,
+    fill: { mode: 'loop', loopStart: 0, crossfade: 0.5, segments: [], padFade: 2 },
+    media: { ...media('song.mp3'), type: 'audio/mpeg' }
+  }],
+  pairs: { 'v1:t1': { enabled: true, startTime: null } },
+  settings: {
+    outputProfileIds: ['reels-720'],
+    previewProfileId: 'reels-720',
+    minVideoDuration: null,
+    loudnessTarget: -14
+  }
+});
+
+// Version 3 added a probe without the coded size
+const v3Manifest = (rotation: number) => {
+  const manifest = v1Manifest();
+  return {
+    ...manifest,
+    version: 3,
+    settings: { ...manifest.settings, filenameTemplate: '{video}' },
+    videos: manifest.videos.map(video => ({
+      ...video,
+      probe: { container: 'mp4', videoCodec: 'h264', audioCodecs: ['aac'], rotation, frameRate: 30, variableFrameRate: false }
+    }))
+  };
+};
+
+const expectInvalid = (data: unknown, message: RegExp) => {
+  expect(() => parseManifest(data)).toThrow(ProjectFileError);
+  expect(() => parseManifest(data)).toThrow(message);
+};
+
+describe('migrateManifest', () => {
+  it('brings a v1 manifest up to the current version', () => {
+    const migrated = migrateManifest(v1Manifest()) as ReturnType<typeof v1Manifest>;
+    expect(migrated.version).toBe(PROJECT_FILE_VERSION);
+  });
+
+  it('adds the default filename template (v1 → v2)', () => {
+    const manifest = parseManifest(v1Manifest());
+    expect(manifest.settings.filenameTemplate).toBe(DEFAULT_FILENAME_TEMPLATE);
+  });
+
+  it('marks old videos as never probed (v2 → v3)', () => {
+    const manifest = parseManifest(v1Manifest());
+    expect(manifest.videos[0].probe).toBeNull();
+  });
+
+  it('fills the coded size of old probes from the displayed size (v3 → v4)', () => {
+    const manifest = parseManifest(v3Manifest(0));
+    expect(manifest.videos[0].probe).toMatchObject({ width: 1080, height: 1920, sampleAspectRatio: 1 });
+    expect(manifest.settings.filenameTemplate).toBe('{video}');
+  });
+
+  it('turns the displayed size back for rotated probes (v3 → v4)', () => {
+    const manifest = parseManifest(v3Manifest(90));
+    expect(manifest.videos[0].probe).toMatchObject({ width: 1920, height: 1080, rotation: 90 });
+  });
+
+  it('leaves a current manifest as it is', () => {
+    const current = parseManifest(v1Manifest());
+    expect(parseManifest(current)).toEqual(current);
+  });
+
+  it('keeps everything else through the migrations', () => {
+    const manifest = parseManifest(v1Manifest());
+    expect(manifest.name).toBe('Verão');
+    expect(manifest.videos[0].reframe).toEqual([{ time: 1, x: 0.3, y: 0.5 }]);
+    expect(manifest.tracks[0]).toMatchObject({ id: 't1', startTime: 30, snapToBeat: true });
+    expect(manifest.pairs['v1:t1']).toEqual({ enabled: true, startTime: null });
+  });
+
+  it('rejects files of another format', () => {
+    expect(() => migrateManifest({ ...v1Manifest(), format: 'other' })).toThrow(/não é um projeto/);
+    expect(() => migrateManifest(null)).toThrow(ProjectFileError);
+    expect(() => migrateManifest('{}')).toThrow(ProjectFileError);
+  });
+
+  it('rejects unknown and newer versions', () => {
+    expect(() => migrateManifest({ ...v1Manifest(), version: 0 })).toThrow(/versão desconhecida/);
+    expect(() => migrateManifest({ ...v1Manifest(), version: 1.5 })).toThrow(/versão desconhecida/);
+    expect(() => migrateManifest({ ...v1Manifest(), version: '1' })).toThrow(/versão desconhecida/);
+    expect(() => migrateManifest({ ...v1Manifest(), version: PROJECT_FILE_VERSION + 1 })).toThrow(/versão mais nova/);
+  });
+});
+
+describe('parseManifest', () => {
+  it('names the offending field', () => {
+    const manifest = v1Manifest();
+    expectInvalid({ ...manifest, name: 42 }, /"projeto\.name" deveria ser um texto/);
+    expectInvalid({ ...manifest, videos: {} }, /"projeto\.videos" deveria ser uma lista/);
+    expectInvalid(
+      { ...manifest, videos: [{ ...manifest.videos[0], duration: 'long' }] },
+      /"projeto\.videos\[0\]\.duration" deveria ser um número/
+    );
+    expectInvalid(
+      { ...manifest, tracks: [{ ...manifest.tracks[0], snapToBeat: 'yes' }] },
+      /"projeto\.tracks\[0\]\.snapToBeat" deveria ser verdadeiro ou falso/
+    );
+  });
+
+  it('rejects values outside an enumeration', () => {
+    const manifest = v1Manifest();
+    expectInvalid(
+      { ...manifest, tracks: [{ ...manifest.tracks[0], fill: { ...manifest.tracks[0].fill, mode: 'shuffle' } }] },
+      /"projeto\.tracks\[0\]\.fill\.mode" deveria ser "loop" ou "stitch" ou "pad"/
+    );
+  });
+
+  it('rejects non-finite numbers and missing media', () => {
+    const manifest = v1Manifest();
+    expectInvalid({ ...manifest, videos: [{ ...manifest.videos[0], trimEnd: Infinity }] }, /trimEnd/);
+    const { media: _media, ...withoutMedia } = manifest.videos[0];
+    expectInvalid({ ...manifest, videos: [withoutMedia] }, /"projeto\.videos\[0\]\.media" deveria ser um objeto/);
+  });
+
+  it('validates the pairs by key', () => {
+    expectInvalid({ ...v1Manifest(), pairs: { 'v1:t1': { enabled: 1, startTime: null } } }, /"projeto\.pairs\.v1:t1\.enabled"/);
+  });
+
+  it('rejects duplicate ids across videos and tracks', () => {
+    const manifest = v1Manifest();
+    expectInvalid({ ...manifest, videos: [manifest.videos[0], { ...manifest.videos[0] }] }, /mesmo id/);
+    expectInvalid({ ...manifest, tracks: [{ ...manifest.tracks[0], id: 'v1' }] }, /mesmo id/);
+  });
+
+  it('drops fields it doesn\'t know', () => {
+    const manifest = parseManifest({ ...v1Manifest(), extra: true });
+    expect(manifest).not.toHaveProperty('extra');
+  });
+});
+
+describe('importedSnapshot', () => {
+  it('reads the probe and keyframes of relinked videos from the file, not the manifest', async () => {
+    const manifest = parseManifest(migrateManifest(v3Manifest(90)));
+    expect(manifest.videos[0].probe).not.toBeNull();
+    // Same name as the exported clip, but not the same file
+    const relinked = await relinkMedia({ manifest, media: new Map() }, [new File(['not a video'], 'clip.mp4')]);
+    const { videos, tracks, pairs } = await importedSnapshot(relinked);
+    expect(videos).toHaveLength(1);
+    expect(videos[0]).toMatchObject({ id: 'v1', probe: null, keyframes: null });
+    // The track is still missing, so is its pair
+    expect(tracks).toEqual([]);
+    expect(pairs).toEqual({});
+    URL.revokeObjectURL(videos[0].url);
+  });
+});
@@ -0,0 +1,404 @@
+import { AppStep, AudioFillMode, AudioTrack, ProjectSettings, ProjectSnapshot, RenderPair, UploadedVideo, VideoContainer, VideoProbe } from '../types';
+import { DEFAULT_FILENAME_TEMPLATE } from '../constants';
+import { createZip, isZip, readZip, ZipEntry } from './zip';
+import { displaySize, probeVideoFile } from './mediaProbe';
+import { readKeyframeTimes } from './mp4Keyframes';
+
+// Portable project files, handed between editors. A JSON manifest holds the
+// settings and references the media by name, size and fingerprint; it is
+// either exported alone (media relinked on import) or zipped with the media.
+
+export const PROJECT_FILE_FORMAT = 'audiovideo-merger-project';
+export const PROJECT_FILE_VERSION = 4;
+const MANIFEST_ENTRY = 'project.json';
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+export interface MediaReference {
+  name: string;
+  type: string;
+  size: number;
+  fingerprint: string;  // see mediaFingerprint
+  path: string | null;  // entry in the bundle, null when exported without media
+}
+
+export type ManifestVideo = Omit<UploadedVideo, 'file' | 'url'> & { media: MediaReference };
+export type ManifestTrack = Omit<AudioTrack, 'file' | 'url'> & { media: MediaReference };
+
+export interface ProjectManifest {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string; // ISO 8601
+  videos: ManifestVideo[];
+  activeVideoId: string | null;
+  tracks: ManifestTrack[];
+  pairs: Record<string, RenderPair>;
+  settings: ProjectSettings;
+}
+
+// A manifest item whose media file hasn't been found yet
+export interface MissingMedia {
+  id: string;
+  kind: 'video' | 'track';
+  media: MediaReference;
+}
+
+// --- Migrations -------------------------------------------------------------
+
+// MIGRATIONS[n] upgrades a raw manifest from version n to n + 1. Add an entry
+// (and bump PROJECT_FILE_VERSION) whenever the manifest shape changes.
+const MIGRATIONS: Record<number, (manifest: Record<string, unknown>) => Record<string, unknown>> = {
+  // 2: output filename template
+  1: manifest => ({
+    ...manifest,
+    settings: { ...(manifest.settings as Record<string, unknown>), filenameTemplate: DEFAULT_FILENAME_TEMPLATE }
+  }),
+  // 3: container probe of each video, unknown for older files
+  2: manifest => ({
+    ...manifest,
+    videos: Array.isArray(manifest.videos)
+      ? manifest.videos.map(video => ({ ...(video as Record<string, unknown>), probe: null }))
+      : manifest.videos
+  }),
+  // 4: coded size and pixel aspect in the probe; older probes assume square pixels
+  3: manifest => ({
+    ...manifest,
+    videos: Array.isArray(manifest.videos)
+      ? manifest.videos.map(item => {
+        const video = item as Record<string, unknown>;
+        const probe = video.probe as Record<string, unknown> | null;
+        if (!probe) return video;
+        const turned = probe.rotation === 90 || probe.rotation === 270;
+        return {
+          ...video,
+          probe: { ...probe, width: turned ? video.height : video.width, height: turned ? video.width : video.height, sampleAspectRatio: 1 }
+        };
+      })
+      : manifest.videos
+  })
+};
+
+/** Brings a parsed manifest of any known version up to PROJECT_FILE_VERSION. */
+export const migrateManifest = (data: unknown): unknown => {
+  if (typeof data !== 'object' || data === null || (data as Record<string, unknown>).format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError("Este arquivo não é um projeto do AudioVideo Merger.");
+  }
+  let manifest = data as Record<string, unknown>;
+  const version = manifest.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError("Arquivo de projeto inválido: versão desconhecida.");
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError("Este projeto foi criado por uma versão mais nova do app. Atualize a página e tente novamente.");
+  }
+  for (let v = version; v < PROJECT_FILE_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new ProjectFileError(`Não há como atualizar projetos da versão ${v}.`);
+    manifest = { ...migrate(manifest), version: v + 1 };
+  }
+  return manifest;
+};
+
+// --- Validation -------------------------------------------------------------
+
+// Checks a value and returns it typed; `path` locates the field in error messages
+type Validator<T> = (value: unknown, path: string) => T;
+
+const invalid = (path: string, expected: string): never => {
+  throw new ProjectFileError(`Arquivo de projeto inválido: "${path}" deveria ser ${expected}.`);
+};
+
+const number: Validator<number> = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : invalid(path, 'um número');
+
+const string: Validator<string> = (value, path) =>
+  typeof value === 'string' ? value : invalid(path, 'um texto');
+
+const boolean: Validator<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : invalid(path, 'verdadeiro ou falso');
+
+const nullable = <T>(validate: Validator<T>): Validator<T | null> => (value, path) =>
+  value === null ? null : validate(value, path);
+
+const oneOf = <T extends string>(...options: T[]): Validator<T> => (value, path) =>
+  options.includes(value as T) ? value as T : invalid(path, options.map(o => `"${o}"`).join(' ou '));
+
+const array = <T>(validate: Validator<T>): Validator<T[]> => (value, path) =>
+  Array.isArray(value) ? value.map((item, i) => validate(item, `${path}[${i}]`)) : invalid(path, 'uma lista');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Unknown fields are dropped, so older apps can read files with additions
+const object = <T>(shape: { [K in keyof T]: Validator<T[K]> }): Validator<T> => (value, path) => {
+  if (!isRecord(value)) return invalid(path, 'um objeto');
+  const result = {} as T;
+  (Object.keys(shape) as (keyof T)[]).forEach(key => {
+    result[key] = shape[key](value[key as string], `${path}.${String(key)}`);
+  });
+  return result;
+};
+
+const record = <T>(validate: Validator<T>): Validator<Record<string, T>> => (value, path) => {
+  if (!isRecord(value)) return invalid(path, 'um objeto');
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, validate(item, `${path}.${key}`)]));
+};
+
+const mediaReference = object<MediaReference>({
+  name: string,
+  type: string,
+  size: number,
+  fingerprint: string,
+  path: nullable(string)
+});
+
+const manifestVideo = object<ManifestVideo>({
+  id: string,
+  duration: number,
+  width: number,
+  height: number,
+  reframe: array(object({ time: number, x: number, y: number })),
+  trimStart: number,
+  trimEnd: number,
+  keyframes: nullable(array(number)),
+  probe: nullable(object<VideoProbe>({
+    container: oneOf<VideoContainer>('mp4', 'mov', 'webm', 'matroska'),
+    videoCodec: nullable(string),
+    audioCodecs: array(string),
+    width: number,
+    height: number,
+    sampleAspectRatio: number,
+    rotation: number,
+    frameRate: nullable(number),
+    variableFrameRate: boolean
+  })),
+  media: mediaReference
+});
+
+const manifestTrack = object<ManifestTrack>({
+  id: string,
+  name: string,
+  duration: number,
+  startTime: number,
+  snapToBeat: boolean,
+  mix: object({ originalGain: number, musicGain: number, ducking: boolean, duckingAmount: number }),
+  fadeIn: number,
+  fadeOut: number,
+  fill: object({
+    mode: oneOf<AudioFillMode>('loop', 'stitch', 'pad'),
+    loopStart: number,
+    crossfade: number,
+    segments: array(object({ start: number, end: number })),
+    padFade: number
+  }),
+  media: mediaReference
+});
+
+const manifestSchema = object<ProjectManifest>({
+  format: oneOf(PROJECT_FILE_FORMAT),
+  version: number,
+  name: string,
+  exportedAt: string,
+  videos: array(manifestVideo),
+  activeVideoId: nullable(string),
+  tracks: array(manifestTrack),
+  pairs: record(object<RenderPair>({ enabled: boolean, startTime: nullable(number) })),
+  settings: object<ProjectSettings>({
+    outputProfileIds: array(string),
+    previewProfileId: string,
+    minVideoDuration: nullable(number),
+    loudnessTarget: nullable(number),
+    filenameTemplate: string
+  })
+});
+
+/** Migrates and validates a parsed manifest, throwing ProjectFileError with the offending field. */
+export const parseManifest = (data: unknown): ProjectManifest => {
+  const manifest = manifestSchema(migrateManifest(data), 'projeto');
+  const ids = [...manifest.videos, ...manifest.tracks].map(item => item.id);
+  if (new Set(ids).size !== ids.length) {
+    throw new ProjectFileError("Arquivo de projeto inválido: há vídeos ou áudios com o mesmo id.");
+  }
+  return manifest;
+};
+
+// --- Media ------------------------------------------------------------------
+
+const FINGERPRINT_SAMPLE_BYTES = 1024 * 1024;
+
+/**
+ * SHA-256 of the file size and its first and last megabyte. Cheap enough
+ * for multi-GB videos and still tells apart files that share a name.
+ */
+export const mediaFingerprint = async (file: Blob): Promise<string> => {
+  const head = file.slice(0, FINGERPRINT_SAMPLE_BYTES);
+  const tail = file.slice(Math.max(FINGERPRINT_SAMPLE_BYTES, file.size - FINGERPRINT_SAMPLE_BYTES));
+  const data = await new Blob([`${file.size}:`, head, tail]).arrayBuffer();
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const mediaPath = (kind: 'videos' | 'tracks', id: string, name: string) =>
+  `media/${kind}/${id}-${name.replace(/[\\/:*?"<>|]/g, '_')}`;
+
+const describeMedia = async (file: File, path: string | null): Promise<MediaReference> => ({
+  name: file.name,
+  type: file.type,
+  size: file.size,
+  fingerprint: await mediaFingerprint(file),
+  path
+});
+
+// --- Export -----------------------------------------------------------------
+
+const buildManifest = async (name: string, snapshot: ProjectSnapshot, bundled: boolean): Promise<ProjectManifest> => ({
+  format: PROJECT_FILE_FORMAT,
+  version: PROJECT_FILE_VERSION,
+  name,
+  exportedAt: new Date().toISOString(),
+  videos: await Promise.all(snapshot.videos.map(async ({ file, url, ...video }) => ({
+    ...video,
+    media: await describeMedia(file, bundled ? mediaPath('videos', video.id, file.name) : null)
+  }))),
+  activeVideoId: snapshot.activeVideoId,
+  tracks: await Promise.all(snapshot.tracks.map(async ({ file, url, ...track }) => ({
+    ...track,
+    media: await describeMedia(file, bundled ? mediaPath('tracks', track.id, file.name) : null)
+  }))),
+  pairs: snapshot.pairs,
+  settings: snapshot.settings
+});
+
+const manifestBlob = (manifest: ProjectManifest) =>
+  new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
+
+/** Settings only; the media is relinked from local files on import. */
+export const exportProjectManifest = async (name: string, snapshot: ProjectSnapshot): Promise<Blob> =>
+  manifestBlob(await buildManifest(name, snapshot, false));
+
+/** Single .zip with the manifest and every video and audio file. */
+export const exportProjectBundle = async (name: string, snapshot: ProjectSnapshot): Promise<Blob> => {
+  const manifest = await buildManifest(name, snapshot, true);
+  const entries: ZipEntry[] = [
+    { name: MANIFEST_ENTRY, blob: manifestBlob(manifest) },
+    ...snapshot.videos.map((v, i) => ({ name: manifest.videos[i].media.path!, blob: v.file })),
+    ...snapshot.tracks.map((t, i) => ({ name: manifest.tracks[i].media.path!, blob: t.file }))
+  ];
+  return createZip(entries);
+};
+
+// --- Import -----------------------------------------------------------------
+
+export interface ImportedProject {
+  manifest: ProjectManifest;
+  media: Map<string, File>; // video/track id -> file found so far
+}
+
+const manifestItems = (manifest: ProjectManifest): MissingMedia[] => [
+  ...manifest.videos.map(v => ({ id: v.id, kind: 'video' as const, media: v.media })),
+  ...manifest.tracks.map(t => ({ id: t.id, kind: 'track' as const, media: t.media }))
+];
+
+export const missingMedia = ({ manifest, media }: ImportedProject): MissingMedia[] =>
+  manifestItems(manifest).filter(item => !media.has(item.id));
+
+/** Reads a .json manifest or a .zip bundle. Bundles come back with their media attached. */
+export const readProjectFile = async (file: File): Promise<ImportedProject> => {
+  let text: string;
+  let entries: ZipEntry[] = [];
+  if (await isZip(file)) {
+    try {
+      entries = await readZip(file);
+    } catch (e) {
+      throw new ProjectFileError(e instanceof Error ? e.message : "Arquivo .zip inválido");
+    }
+    const manifestEntry = entries.find(e => e.name === MANIFEST_ENTRY);
+    if (!manifestEntry) throw new ProjectFileError(`O pacote não contém ${MANIFEST_ENTRY}.`);
+    text = await manifestEntry.blob.text();
+  } else {
+    text = await file.text();
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new ProjectFileError("Este arquivo não é um projeto do AudioVideo Merger.");
+  }
+  const manifest = parseManifest(data);
+
+  const media = new Map<string, File>();
+  manifestItems(manifest).forEach(item => {
+    const entry = item.media.path !== null ? entries.find(e => e.name === item.media.path) : undefined;
+    if (entry) media.set(item.id, new File([entry.blob], item.media.name, { type: item.media.type }));
+  });
+  return { manifest, media };
+};
+
+/**
+ * Matches local files to the missing media: same fingerprint first, then
+ * same name and size, then same name. Returns the updated import.
+ */
+export const relinkMedia = async (imported: ImportedProject, candidates: File[]): Promise<ImportedProject> => {
+  const fingerprints = await Promise.all(candidates.map(mediaFingerprint));
+  const media = new Map(imported.media);
+  const used = new Set<number>();
+  const rules: ((ref: MediaReference, file: File, i: number) => boolean)[] = [
+    (ref, _, i) => fingerprints[i] === ref.fingerprint,
+    (ref, file) => file.name === ref.name && file.size === ref.size,
+    (ref, file) => file.name === ref.name
+  ];
+  rules.forEach(matches => {
+    missingMedia({ ...imported, media }).forEach(item => {
+      const index = candidates.findIndex((file, i) => !used.has(i) && matches(item.media, file, i));
+      if (index < 0) return;
+      used.add(index);
+      media.set(item.id, candidates[index]);
+    });
+  });
+  return { ...imported, media };
+};
+
+/**
+ * Turns an import into a project. Items still without media are left out,
+ * together with their pairs; object URLs are created for the rest.
+ */
+export const importedSnapshot = async ({ manifest, media }: ImportedProject): Promise<ProjectSnapshot> => {
+  const videos: UploadedVideo[] = [];
+  for (const { media: _, ...video } of manifest.videos) {
+    const file = media.get(video.id);
+    if (!file) continue;
+    // A relinked file may not be the one the manifest describes, so the
+    // container facts are read again from the file that will be rendered
+    const probe = await probeVideoFile(file);
+    const keyframes = await readKeyframeTimes(file);
+    videos.push({ ...video, ...displaySize(probe), probe, keyframes, file, url: URL.createObjectURL(file) });
+  }
+  const tracks: AudioTrack[] = manifest.tracks
+    .filter(t => media.has(t.id))
+    .map(({ media: _, ...track }) => {
+      const file = media.get(track.id)!;
+      return { ...track, file, url: URL.createObjectURL(file) };
+    });
+  const ids = new Set([...videos, ...tracks].map(item => item.id));
+  const pairs = Object.fromEntries(
+    Object.entries(manifest.pairs).filter(([key]) => key.split(':').every(id => ids.has(id)))
+  );
+
+  return {
+    videos,
+    activeVideoId: videos.some(v => v.id === manifest.activeVideoId) ? manifest.activeVideoId : videos[0]?.id ?? null,
+    tracks,
+    pairs,
+    results: [],
+    queue: [],
+    settings: manifest.settings,
+    step: videos.length > 0 ? AppStep.CONFIGURE_AUDIO : AppStep.UPLOAD_VIDEO
+  };
+};
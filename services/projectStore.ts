@@ -0,0 +1,268 @@
+import { AudioTrack, ProcessedResult, ProjectSnapshot, ProjectSummary, UploadedVideo } from '../types';
+import { DEFAULT_FILENAME_TEMPLATE } from '../constants';
+import { displaySize, probeVideoFile } from './mediaProbe';
+import { interruptedQueue } from './renderQueue';
+
+// Projects are kept in IndexedDB: one record per project with the settings,
+// and the source files and rendered outputs as separate blobs so listing the
+// projects never has to read them.
+
+const DB_NAME = 'audiovideo-merger';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const BLOBS = 'blobs';
+
+export class ProjectQuotaError extends Error {
+  constructor() {
+    super("Sem espaço para salvar o projeto neste navegador. Exclua projetos antigos para liberar espaço.");
+    this.name = 'ProjectQuotaError';
+  }
+}
+
+type StoredVideo = Omit<UploadedVideo, 'file' | 'url'>;
+type StoredTrack = Omit<AudioTrack, 'file' | 'url'>;
+type StoredResult = Omit<ProcessedResult, 'blob' | 'videoUrl' | 'audioUrl'>;
+
+interface ProjectRecord extends ProjectSummary {
+  videos: StoredVideo[];
+  activeVideoId: string | null;
+  tracks: StoredTrack[];
+  pairs: ProjectSnapshot['pairs'];
+  results: StoredResult[];
+  queue?: ProjectSnapshot['queue']; // missing in projects saved before the render queue
+  settings: ProjectSnapshot['settings'];
+  step: ProjectSnapshot['step'];
+}
+
+// Blob keys are prefixed with the project id so a project's blobs form one key range.
+// Results are re-rendered under the same id, the creation time tells the versions apart.
+const videoKey = (projectId: string, video: Pick<UploadedVideo, 'id'>) => `${projectId}/video/${video.id}`;
+const trackKey = (projectId: string, track: Pick<AudioTrack, 'id'>) => `${projectId}/track/${track.id}`;
+const resultKey = (projectId: string, result: Pick<ProcessedResult, 'id' | 'createdAt'>) =>
+  `${projectId}/result/${result.id}/${result.createdAt.getTime()}`;
+const projectBlobRange = (projectId: string) => IDBKeyRange.bound(`${projectId}/`, `${projectId}/\uffff`);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(BLOBS)) db.createObjectStore(BLOBS);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const isQuotaError = (error: DOMException | null) =>
+  !!error && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolves once the transaction commits; quota failures become ProjectQuotaError.
+ * Callers create it before their requests and await it after them, so it is
+ * marked handled meanwhile: when a request fails first, that error is the one
+ * thrown and the transaction's own failure would otherwise go unhandled.
+ */
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    const fail = () => reject(isQuotaError(tx.error) ? new ProjectQuotaError() : tx.error ?? new Error("Falha ao salvar o projeto"));
+    tx.onerror = fail;
+    tx.onabort = fail;
+  });
+  done.catch(() => {});
+  return done;
+};
+
+const summaryOf = (record: ProjectRecord): ProjectSummary => ({
+  id: record.id,
+  name: record.name,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+  videoCount: record.videoCount,
+  trackCount: record.trackCount,
+  resultCount: record.resultCount
+});
+
+/** Saved projects, most recently edited first. */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDatabase();
+  const records = await requestResult(db.transaction(PROJECTS).objectStore(PROJECTS).getAll() as IDBRequest<ProjectRecord[]>);
+  return records.map(summaryOf).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Writes the project record and any source or result blob not stored yet,
+ * then drops the blobs the project no longer references. Everything happens
+ * in one transaction, so a failed save leaves the previous version intact.
+ */
+export const saveProject = async (id: string, name: string, snapshot: ProjectSnapshot): Promise<void> => {
+  // Keyed before the transaction starts writing, so nothing is committed half way
+  const wanted = new Map<string, Blob>([
+    ...snapshot.videos.map(v => [videoKey(id, v), v.file] as [string, Blob]),
+    ...snapshot.tracks.map(t => [trackKey(id, t), t.file] as [string, Blob]),
+    ...snapshot.results.map(r => [resultKey(id, r), r.blob] as [string, Blob])
+  ]);
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, BLOBS], 'readwrite');
+  const done = transactionDone(tx);
+  const projects = tx.objectStore(PROJECTS);
+  const blobs = tx.objectStore(BLOBS);
+
+  const existing = await requestResult(projects.get(id) as IDBRequest<ProjectRecord | undefined>);
+  const now = Date.now();
+  const record: ProjectRecord = {
+    id,
+    name,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    videoCount: snapshot.videos.length,
+    trackCount: snapshot.tracks.length,
+    resultCount: snapshot.results.length,
+    videos: snapshot.videos.map(({ file, url, ...video }) => video),
+    activeVideoId: snapshot.activeVideoId,
+    tracks: snapshot.tracks.map(({ file, url, ...track }) => track),
+    pairs: snapshot.pairs,
+    results: snapshot.results.map(({ blob, videoUrl, audioUrl, ...result }) => result),
+    queue: snapshot.queue,
+    settings: snapshot.settings,
+    step: snapshot.step
+  };
+  projects.put(record);
+
+  const storedKeys = new Set(await requestResult(blobs.getAllKeys(projectBlobRange(id))) as string[]);
+  wanted.forEach((blob, key) => {
+    if (!storedKeys.has(key)) blobs.put(blob, key);
+  });
+  storedKeys.forEach(key => {
+    if (!wanted.has(key)) blobs.delete(key);
+  });
+
+  return done;
+};
+
+/**
+ * Reads a project back with fresh object URLs for its files; the caller
+ * revokes them like the ones created on upload.
+ */
+export const loadProject = async (id: string): Promise<{ name: string; snapshot: ProjectSnapshot }> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, BLOBS]);
+  const record = await requestResult(tx.objectStore(PROJECTS).get(id) as IDBRequest<ProjectRecord | undefined>);
+  if (!record) throw new Error("Projeto não encontrado");
+
+  const blobs = tx.objectStore(BLOBS);
+  const readBlob = (key: string) => requestResult(blobs.get(key) as IDBRequest<Blob | undefined>);
+
+  const videos: UploadedVideo[] = [];
+  for (const video of record.videos) {
+    const file = await readBlob(videoKey(id, video));
+    if (file instanceof File) videos.push({ ...video, file, url: URL.createObjectURL(file) });
+  }
+  const tracks: AudioTrack[] = [];
+  for (const track of record.tracks) {
+    const file = await readBlob(trackKey(id, track));
+    if (file instanceof File) tracks.push({ ...track, file, url: URL.createObjectURL(file) });
+  }
+  const results: ProcessedResult[] = [];
+  for (const result of record.results) {
+    const blob = await readBlob(resultKey(id, result));
+    const track = tracks.find(t => t.id === result.trackId);
+    if (blob) {
+      results.push({ ...result, blob, videoUrl: URL.createObjectURL(blob), audioUrl: track?.url ?? '' });
+    }
+  }
+
+  // Probes only read the container header, so they are taken again from the
+  // files (once the transaction is done) rather than trusted from older saves
+  for (const video of videos) {
+    video.probe = await probeVideoFile(video.file);
+    Object.assign(video, displaySize(video.probe));
+  }
+
+  return {
+    name: record.name,
+    snapshot: {
+      videos,
+      activeVideoId: videos.some(v => v.id === record.activeVideoId) ? record.activeVideoId : videos[0]?.id ?? null,
+      tracks,
+      pairs: record.pairs,
+      results,
+      queue: interruptedQueue(record.queue ?? []),
+      // Projects saved before a setting existed get its default
+      settings: { filenameTemplate: DEFAULT_FILENAME_TEMPLATE, ...record.settings },
+      step: record.step
+    }
+  };
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const done = transactionDone(tx);
+  const store = tx.objectStore(PROJECTS);
+  const record = await requestResult(store.get(id) as IDBRequest<ProjectRecord | undefined>);
+  if (record) store.put({ ...record, name });
+  return done;
+};
+
+/** Copies a project with all its blobs under a new id. */
+export const duplicateProject = async (id: string, name: string): Promise<ProjectSummary> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, BLOBS], 'readwrite');
+  const done = transactionDone(tx);
+  const projects = tx.objectStore(PROJECTS);
+  const blobs = tx.objectStore(BLOBS);
+
+  const record = await requestResult(projects.get(id) as IDBRequest<ProjectRecord | undefined>);
+  if (!record) throw new Error("Projeto não encontrado");
+  const copyId = Math.random().toString(36).substr(2, 9);
+  const now = Date.now();
+  const copy: ProjectRecord = { ...record, id: copyId, name, createdAt: now, updatedAt: now };
+  projects.put(copy);
+
+  const range = projectBlobRange(id);
+  const [keys, values] = await Promise.all([
+    requestResult(blobs.getAllKeys(range)) as Promise<string[]>,
+    requestResult(blobs.getAll(range)) as Promise<Blob[]>
+  ]);
+  keys.forEach((key, i) => blobs.put(values[i], `${copyId}${key.slice(id.length)}`));
+
+  await done;
+  return summaryOf(copy);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, BLOBS], 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(BLOBS).delete(projectBlobRange(id));
+  return done;
+};
+
+/** Bytes used and available to the app, null where the browser doesn't tell. */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+};
+
+/** Asks the browser not to evict the projects under storage pressure. */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist().catch(() => false);
+};
@@ -0,0 +1,72 @@
+import { ReframeKeyframe } from '../types';
+
+// Keyframes closer than this to an existing one replace it instead of adding a new one
+const KEYFRAME_MERGE_SEC = 0.1;
+
+export interface ReframePosition {
+  x: number; // 0 = left edge of the source, 1 = right edge
+  y: number; // 0 = top edge, 1 = bottom edge
+}
+
+export const CENTERED: ReframePosition = { x: 0.5, y: 0.5 };
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Position of the crop window at `time`, linearly interpolated between the
+ * surrounding keyframes and held before the first / after the last one.
+ * Uses the same fraction-of-overflow convention as CSS `object-position`,
+ * so `object-fit: cover` previews exactly what the crop filter exports.
+ */
+export const interpolateReframe = (keyframes: ReframeKeyframe[], time: number): ReframePosition => {
+  if (keyframes.length === 0) return CENTERED;
+  const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+  if (time <= sorted[0].time) return { x: sorted[0].x, y: sorted[0].y };
+
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const next = sorted[i];
+    if (time < next.time) {
+      const ratio = (time - prev.time) / (next.time - prev.time);
+      return {
+        x: prev.x + (next.x - prev.x) * ratio,
+        y: prev.y + (next.y - prev.y) * ratio
+      };
+    }
+  }
+  const last = sorted[sorted.length - 1];
+  return { x: last.x, y: last.y };
+};
+
+/** Adds a keyframe, replacing any existing keyframe at (almost) the same time. */
+export const upsertKeyframe = (keyframes: ReframeKeyframe[], keyframe: ReframeKeyframe): ReframeKeyframe[] => {
+  const clamped = { time: Math.max(0, keyframe.time), x: clamp01(keyframe.x), y: clamp01(keyframe.y) };
+  return [
+    ...keyframes.filter(k => Math.abs(k.time - clamped.time) >= KEYFRAME_MERGE_SEC),
+    clamped
+  ].sort((a, b) => a.time - b.time);
+};
+
+const formatNumber = (value: number) => Number(value.toFixed(4)).toString();
+
+/**
+ * FFmpeg expression (in terms of `t`) for one axis of the keyframed
+ * position, matching interpolateReframe: nested if(lt(t,...)) segments.
+ */
+export const buildReframeExpression = (keyframes: ReframeKeyframe[], axis: 'x' | 'y'): string => {
+  if (keyframes.length === 0) return formatNumber(CENTERED[axis]);
+  const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+
+  let expression = formatNumber(sorted[sorted.length - 1][axis]);
+  for (let i = sorted.length - 1; i >= 1; i--) {
+    const prev = sorted[i - 1];
+    const next = sorted[i];
+    const span = next.time - prev.time;
+    const delta = next[axis] - prev[axis];
+    const segment = delta === 0 || span <= 0
+      ? formatNumber(prev[axis])
+      : `${formatNumber(prev[axis])}+${formatNumber(delta)}*(t-${formatNumber(prev.time)})/${formatNumber(span)}`;
+    expression = `if(lt(t,${formatNumber(next.time)}),${segment},${expression})`;
+  }
+  return `if(lt(t,${formatNumber(sorted[0].time)}),${formatNumber(sorted[0][axis])},${expression})`;
+};
@@ -0,0 +1,35 @@
+// Runs the RenderEngine off the main thread. The main thread talks to it
+// through RenderWorkerClient and terminates it to cancel a render.
+import { RenderJobSpec } from '../types';
+import { RenderEngine, RenderJobError, RenderLogEvent, RenderOutput, RenderProgressEvent } from './renderEngine';
+import { createCoreFFmpeg } from './ffmpegCore';
+import { opfsOutputStore } from './resultFiles';
+
+export type RenderWorkerRequest = { type: 'render'; jobs: RenderJobSpec[] };
+
+export type RenderWorkerResponse =
+  | { type: 'progress'; event: RenderProgressEvent }
+  | { type: 'log'; event: RenderLogEvent }
+  | { type: 'done'; outputs: RenderOutput[] }
+  | { type: 'error'; message: string; jobId: string | null; logTail: string[] };
+
+// Worker has the same postMessage/onmessage shape as the worker global scope
+const ctx = self as unknown as Worker;
+const post = (message: RenderWorkerResponse) => ctx.postMessage(message);
+
+// Finished videos go to disk (OPFS) rather than staying in memory
+const engine = new RenderEngine(createCoreFFmpeg, opfsOutputStore);
+engine.on('progress', event => post({ type: 'progress', event }));
+engine.on('log', event => post({ type: 'log', event }));
+
+ctx.onmessage = async (e: MessageEvent<RenderWorkerRequest>) => {
+  try {
+    const outputs = await engine.render(e.data.jobs);
+    post({ type: 'done', outputs });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    post(err instanceof RenderJobError
+      ? { type: 'error', message, jobId: err.jobId, logTail: err.logTail }
+      : { type: 'error', message, jobId: null, logTail: [] });
+  }
+};
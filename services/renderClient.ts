@@ -0,0 +1,108 @@
+import { RenderJobSpec } from '../types';
+import { RenderJobError, RenderLogEvent, RenderOutput, RenderProgressEvent } from './renderEngine';
+import type { RenderWorkerRequest, RenderWorkerResponse } from './render.worker';
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super("Renderização cancelada");
+    this.name = 'RenderCancelledError';
+  }
+}
+
+interface RenderClientEvents {
+  progress: RenderProgressEvent;
+  log: RenderLogEvent;
+}
+
+type Listener<T> = (event: T) => void;
+
+/**
+ * Main-thread handle for the render worker. Same event API as RenderEngine,
+ * plus cancel(): the worker is terminated, which drops the FFmpeg instance
+ * and every partial file in its filesystem. A fresh worker is spawned on the
+ * next render.
+ */
+export class RenderWorkerClient {
+  private worker: Worker | null = null;
+  private pending: { resolve: (outputs: RenderOutput[]) => void; reject: (err: Error) => void } | null = null;
+  private listeners: { [K in keyof RenderClientEvents]: Set<Listener<RenderClientEvents[K]>> } = {
+    progress: new Set(),
+    log: new Set()
+  };
+
+  on<K extends keyof RenderClientEvents>(event: K, listener: Listener<RenderClientEvents[K]>): () => void {
+    this.listeners[event].add(listener);
+    return () => { this.listeners[event].delete(listener); };
+  }
+
+  private emit<K extends keyof RenderClientEvents>(event: K, payload: RenderClientEvents[K]) {
+    this.listeners[event].forEach(listener => listener(payload));
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      const worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<RenderWorkerResponse>) => this.handleMessage(e.data);
+      worker.onerror = (e) => {
+        this.settle(new Error(e.message || "Falha no processo de renderização"));
+        this.disposeWorker();
+      };
+      this.worker = worker;
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: RenderWorkerResponse) {
+    switch (message.type) {
+      case 'progress':
+        this.emit('progress', message.event);
+        break;
+      case 'log':
+        this.emit('log', message.event);
+        break;
+      case 'done':
+        this.settle(null, message.outputs);
+        break;
+      case 'error':
+        this.settle(message.jobId
+          ? new RenderJobError(message.message, message.jobId, message.logTail)
+          : new Error(message.message));
+        break;
+    }
+  }
+
+  private settle(error: Error | null, outputs: RenderOutput[] = []) {
+    const pending = this.pending;
+    this.pending = null;
+    if (!pending) return;
+    if (error) pending.reject(error);
+    else pending.resolve(outputs);
+  }
+
+  private disposeWorker() {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  get isRendering(): boolean {
+    return this.pending !== null;
+  }
+
+  render(jobs: RenderJobSpec[]): Promise<RenderOutput[]> {
+    if (this.pending) {
+      return Promise.reject(new Error("Já existe uma renderização em andamento"));
+    }
+    const worker = this.getWorker();
+    return new Promise<RenderOutput[]>((resolve, reject) => {
+      this.pending = { resolve, reject };
+      const request: RenderWorkerRequest = { type: 'render', jobs };
+      worker.postMessage(request);
+    });
+  }
+
+  cancel() {
+    if (!this.pending) return;
+    this.disposeWorker();
+    this.settle(new RenderCancelledError());
+  }
+}
@@ -0,0 +1,248 @@
+import { RenderJobSpec } from '../types';
+import { buildFFmpegArgs, buildLoudnessMeasureArgs, RenderJobFiles } from './ffmpegArgs';
+import { LoudnormMeasurement, parseLoudnormMeasurement } from './loudness';
+import { estimateRenderProgress, parseStatusLine } from './ffmpegProgress';
+import { memoryOutputStore, OutputStore } from './resultFiles';
+
+// Emscripten file stream, opaque to the engine
+export type FFmpegStream = object;
+
+// The Emscripten FS calls the engine makes
+export interface FFmpegFS {
+  open: (path: string, flags: 'r') => FFmpegStream;
+  read: (stream: FFmpegStream, buffer: Uint8Array, offset: number, length: number) => number;
+  close: (stream: FFmpegStream) => void;
+  unlink: (path: string) => void;
+}
+
+// Subset of the @ffmpeg/ffmpeg API used by the engine
+export interface FFmpegInstance {
+  load: () => Promise<void>;
+  isLoaded: () => boolean;
+  run: (...args: string[]) => Promise<void>;
+  FS: <M extends keyof FFmpegFS>(method: M, ...args: Parameters<FFmpegFS[M]>) => ReturnType<FFmpegFS[M]>;
+  // Makes blobs readable under a new directory (WORKERFS), without copying them
+  mount: (directory: string, files: { name: string; data: Blob }[]) => void;
+  unmount: (directory: string) => void;
+  setLogger: (logger: (entry: { type: string; message: string }) => void) => void;
+}
+
+export type FFmpegFactory = () => FFmpegInstance;
+
+export interface RenderProgressEvent {
+  completed: number; // jobs finished
+  total: number;
+  message: string;
+  jobIndex: number;
+  jobName: string | null;
+  jobRatio: number;          // 0..1 within the current job
+  overallRatio: number;      // 0..1 across all jobs, weighted by duration
+  speed: number | null;      // encoding speed relative to realtime
+  etaSeconds: number | null;
+}
+
+export interface RenderLogEvent {
+  jobId: string | null;
+  message: string;
+}
+
+export interface RenderOutput {
+  jobId: string;
+  blob: Blob;
+}
+
+interface RenderEngineEvents {
+  progress: RenderProgressEvent;
+  log: RenderLogEvent;
+}
+
+type Listener<T> = (event: T) => void;
+
+/** A job that failed inside FFmpeg; the last log lines usually say why. */
+export class RenderJobError extends Error {
+  constructor(message: string, readonly jobId: string, readonly logTail: string[]) {
+    super(message);
+    this.name = 'RenderJobError';
+  }
+}
+
+// Log lines kept per job for the error report
+const LOG_TAIL_LINES = 20;
+
+const keepTail = (tail: string[], line: string) => {
+  tail.push(line);
+  if (tail.length > LOG_TAIL_LINES) tail.shift();
+};
+
+// FFmpeg picks demuxers by content, but the extension is its hint for raw
+// streams (ADTS AAC, MP3 without tags), so inputs keep their real one
+const extensionOf = (name: string, fallback: string) =>
+  /\.([a-z0-9]{1,5})$/i.exec(name)?.[1].toLowerCase() ?? fallback;
+
+// The output leaves MEMFS this much at a time, so it is never held twice
+const FILE_CHUNK_BYTES = 8 * 1024 * 1024;
+
+/** Streams a file out of the FFmpeg filesystem into the output store. */
+const readOutputFile = async (ffmpeg: FFmpegInstance, path: string, store: OutputStore, jobId: string): Promise<Blob> => {
+  // FFmpeg reports errors in the log and exits; a missing output is how they show up here
+  let stream: FFmpegStream;
+  try {
+    stream = ffmpeg.FS('open', path, 'r');
+  } catch (e) {
+    throw new Error("O FFmpeg não gerou o vídeo");
+  }
+  try {
+    const writer = await store(jobId);
+    while (true) {
+      const chunk = new Uint8Array(FILE_CHUNK_BYTES);
+      const length = ffmpeg.FS('read', stream, chunk, 0, chunk.length);
+      if (length === 0) break;
+      await writer.write(chunk.subarray(0, length));
+    }
+    return await writer.close();
+  } finally {
+    ffmpeg.FS('close', stream);
+  }
+};
+
+export class RenderEngine {
+  private ffmpeg: FFmpegInstance | null = null;
+  private currentJobId: string | null = null;
+  private onLogLine: ((line: string) => void) | null = null;
+  private inputCount = 0;
+  private listeners: { [K in keyof RenderEngineEvents]: Set<Listener<RenderEngineEvents[K]>> } = {
+    progress: new Set(),
+    log: new Set()
+  };
+
+  constructor(
+    private readonly factory: FFmpegFactory,
+    private readonly outputStore: OutputStore = memoryOutputStore
+  ) {}
+
+  on<K extends keyof RenderEngineEvents>(event: K, listener: Listener<RenderEngineEvents[K]>): () => void {
+    this.listeners[event].add(listener);
+    return () => { this.listeners[event].delete(listener); };
+  }
+
+  private emit<K extends keyof RenderEngineEvents>(event: K, payload: RenderEngineEvents[K]) {
+    this.listeners[event].forEach(listener => listener(payload));
+  }
+
+  private async load(): Promise<FFmpegInstance> {
+    if (!this.ffmpeg) {
+      const ffmpeg = this.factory();
+      ffmpeg.setLogger(({ message }) => {
+        this.emit('log', { jobId: this.currentJobId, message });
+        this.onLogLine?.(message);
+      });
+      await ffmpeg.load();
+      this.ffmpeg = ffmpeg;
+    }
+    return this.ffmpeg;
+  }
+
+  /**
+   * Renders the jobs one after another and stops at the first failure with a
+   * RenderJobError. Each job's video and music are mounted where FFmpeg can
+   * read them, so they are never copied into its filesystem or memory.
+   */
+  async render(jobs: RenderJobSpec[]): Promise<RenderOutput[]> {
+    const total = jobs.length;
+    const durations = jobs.map(job => job.duration);
+
+    let lastSpeed: number | null = null;
+    const report = (jobIndex: number, completed: number, message: string, jobTime = 0) => {
+      const estimate = estimateRenderProgress(durations, jobIndex, jobTime, lastSpeed);
+      this.emit('progress', {
+        completed,
+        total,
+        message,
+        jobIndex,
+        jobName: jobs[jobIndex]
+          ? `${jobs[jobIndex].video.file.name} · ${jobs[jobIndex].audio.name} · ${jobs[jobIndex].profile.name}`
+          : null,
+        speed: lastSpeed,
+        ...estimate
+      });
+    };
+
+    report(0, 0, "Carregando motor de vídeo...");
+    const ffmpeg = await this.load();
+    const outputs: RenderOutput[] = [];
+
+    try {
+      for (let i = 0; i < jobs.length; i++) {
+        const job = jobs[i];
+        this.currentJobId = job.id;
+        const logTail: string[] = [];
+        const message = `Renderizando vídeo ${i + 1} de ${total}...`;
+
+        const inputs = `/input_${this.inputCount++}`;
+        const videoName = `video.${extensionOf(job.video.file.name, 'mp4')}`;
+        const audioName = `audio.${extensionOf(job.audio.file.name, 'mp3')}`;
+        const files: RenderJobFiles = {
+          video: `${inputs}/${videoName}`,
+          audio: `${inputs}/${audioName}`,
+          output: `final_video_${i}.mp4`
+        };
+
+        try {
+          ffmpeg.mount(inputs, [
+            { name: videoName, data: job.video.file },
+            { name: audioName, data: job.audio.file }
+          ]);
+
+          let measured: LoudnormMeasurement | null = null;
+          if (job.loudnessTarget !== null) {
+            report(i, i, `Medindo loudness do vídeo ${i + 1} de ${total}...`);
+            const measureLog: string[] = [];
+            this.onLogLine = (line) => {
+              measureLog.push(line);
+              keepTail(logTail, line);
+            };
+            const measureArgs = buildLoudnessMeasureArgs(job, files);
+            this.emit('log', { jobId: job.id, message: `ffmpeg ${measureArgs.join(' ')}` });
+            await ffmpeg.run(...measureArgs);
+            measured = parseLoudnormMeasurement(measureLog.join('\n'));
+            if (!measured) {
+              // Silent or unreadable stats: the second pass normalizes in dynamic mode
+              this.emit('log', { jobId: job.id, message: 'loudnorm: measurement unavailable, using single pass' });
+            }
+          }
+
+          report(i, i, message);
+          this.onLogLine = (line) => {
+            const status = parseStatusLine(line);
+            if (!status) {
+              keepTail(logTail, line);
+              return;
+            }
+            if (status.speed !== null) lastSpeed = status.speed;
+            report(i, i, message, status.time);
+          };
+
+          const args = buildFFmpegArgs(job, files, measured);
+          this.emit('log', { jobId: job.id, message: `ffmpeg ${args.join(' ')}` });
+          await ffmpeg.run(...args);
+
+          report(i, i, "Salvando vídeo...", job.duration);
+          outputs.push({ jobId: job.id, blob: await readOutputFile(ffmpeg, files.output, this.outputStore, job.id) });
+        } catch (err) {
+          if (err instanceof RenderJobError) throw err;
+          throw new RenderJobError(err instanceof Error ? err.message : String(err), job.id, logTail);
+        } finally {
+          this.onLogLine = null;
+          try { ffmpeg.unmount(inputs); } catch(e) {}
+          try { ffmpeg.FS('unlink', files.output); } catch(e) {}
+        }
+
+        report(i, i + 1, message, job.duration);
+      }
+    } finally {
+      this.currentJobId = null;
+    }
+
+    return outputs;
+  }
+}
@@ -0,0 +1,47 @@
+import { AudioTrack, RenderPair, UploadedVideo } from '../types';
+
+// Pair choices of a project, keyed by pairKey(videoId, trackId)
+export type RenderPairs = Record<string, RenderPair>;
+
+const DEFAULT_PAIR: RenderPair = { enabled: true, startTime: null };
+
+export const pairKey = (videoId: string, trackId: string) => `${videoId}:${trackId}`;
+
+/** Choices for a pair; pairs nobody touched yet are rendered with the track's start time. */
+export const getPair = (pairs: RenderPairs, videoId: string, trackId: string): RenderPair =>
+  pairs[pairKey(videoId, trackId)] ?? DEFAULT_PAIR;
+
+export const updatePair = (
+  pairs: RenderPairs,
+  videoId: string,
+  trackId: string,
+  updates: Partial<RenderPair>
+): RenderPairs => ({
+  ...pairs,
+  [pairKey(videoId, trackId)]: { ...getPair(pairs, videoId, trackId), ...updates }
+});
+
+/** Drops the pairs of a removed video or track. */
+export const removePairsOf = (pairs: RenderPairs, id: string): RenderPairs =>
+  Object.fromEntries(
+    Object.entries(pairs).filter(([key]) => !key.split(':').includes(id))
+  );
+
+/** The track as it plays under a given video: same settings, the pair's own start time. */
+export const trackForPair = <T extends Pick<AudioTrack, 'startTime'>>(track: T, pair: RenderPair): T =>
+  pair.startTime === null ? track : { ...track, startTime: pair.startTime };
+
+/**
+ * Enabled pairs, grouped by video so the results of each video finish
+ * together.
+ */
+export const enabledPairs = <V extends Pick<UploadedVideo, 'id'>, T extends Pick<AudioTrack, 'id'>>(
+  videos: V[],
+  tracks: T[],
+  pairs: RenderPairs
+): { video: V; track: T; pair: RenderPair }[] =>
+  videos.flatMap(video =>
+    tracks
+      .map(track => ({ video, track, pair: getPair(pairs, video.id, track.id) }))
+      .filter(({ pair }) => pair.enabled)
+  );
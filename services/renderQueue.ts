@@ -0,0 +1,48 @@
+import { RenderJobStatus, RenderQueueJob } from '../types';
+
+// The render queue of a project: one entry per output file with its own
+// status, so a failing job doesn't take the others down and can be retried
+// on its own. Jobs run one at a time in queue order.
+
+export const queueJobId = (videoId: string, trackId: string, profileId: string) =>
+  `${videoId}:${trackId}:${profileId}`;
+
+export const createQueueJob = (videoId: string, trackId: string, profileId: string): RenderQueueJob => ({
+  id: queueJobId(videoId, trackId, profileId),
+  videoId,
+  trackId,
+  profileId,
+  status: 'queued',
+  error: null,
+  logTail: [],
+  attempts: 0,
+  notice: null
+});
+
+export const updateQueueJob = (queue: RenderQueueJob[], id: string, updates: Partial<RenderQueueJob>): RenderQueueJob[] =>
+  queue.map(job => job.id === id ? { ...job, ...updates } : job);
+
+/** Puts a failed or cancelled job back in line, without its previous error. */
+export const retryQueueJob = (queue: RenderQueueJob[], id: string): RenderQueueJob[] =>
+  updateQueueJob(queue, id, { status: 'queued', error: null, logTail: [], notice: null });
+
+export const removeQueueJob = (queue: RenderQueueJob[], id: string): RenderQueueJob[] =>
+  queue.filter(job => job.id !== id);
+
+/** Drops the jobs of a removed video or track. */
+export const removeQueueJobsOf = (queue: RenderQueueJob[], id: string): RenderQueueJob[] =>
+  queue.filter(job => job.videoId !== id && job.trackId !== id);
+
+/** Cancels everything still waiting; the running job is cancelled by stopping the render. */
+export const cancelQueuedJobs = (queue: RenderQueueJob[]): RenderQueueJob[] =>
+  queue.map(job => job.status === 'queued' ? { ...job, status: 'cancelled' } : job);
+
+export const nextQueuedJob = (queue: RenderQueueJob[]): RenderQueueJob | null =>
+  queue.find(job => job.status === 'queued') ?? null;
+
+export const countJobs = (queue: RenderQueueJob[], status: RenderJobStatus) =>
+  queue.filter(job => job.status === status).length;
+
+/** Renders don't survive a reload: a job that was running goes back in line. */
+export const interruptedQueue = (queue: RenderQueueJob[]): RenderQueueJob[] =>
+  queue.map(job => job.status === 'running' ? { ...job, status: 'queued' } : job);
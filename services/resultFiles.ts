@@ -0,0 +1,106 @@
+// Rendered videos are written to the origin private file system (OPFS) and
+// handed around as the disk-backed File it returns, so a batch of results
+// doesn't sit in memory. Browsers without OPFS get in-memory blobs instead.
+// Every tab holds a shared Web Lock on the result files it uses, which is how
+// cleanup in another tab tells them from files a closed tab left behind.
+
+const RESULTS_DIRECTORY = 'renders';
+// A new file is on its way from the render worker to its tab for this long
+// before the tab locks it
+const UNCLAIMED_RESULT_MS = 10 * 60 * 1000;
+
+/** Receives a rendered file chunk by chunk. */
+export interface OutputWriter {
+  write: (chunk: Uint8Array<ArrayBuffer>) => Promise<void>;
+  close: () => Promise<Blob>;
+}
+
+export type OutputStore = (jobId: string) => Promise<OutputWriter>;
+
+export const memoryOutputStore: OutputStore = async () => {
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  return {
+    write: async (chunk) => { parts.push(chunk); },
+    close: async () => new Blob(parts, { type: 'video/mp4' })
+  };
+};
+
+const hasOpfs = () =>
+  typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function';
+
+const resultsDirectory = async () =>
+  (await navigator.storage.getDirectory()).getDirectoryHandle(RESULTS_DIRECTORY, { create: true });
+
+// Every render gets its own file, so a File handed out earlier is never overwritten
+const resultFileName = (jobId: string) =>
+  `${jobId.replace(/[^a-z0-9_-]/gi, '_')}-${Date.now().toString(36)}.mp4`;
+
+const opfsWriter = async (jobId: string): Promise<OutputWriter> => {
+  const handle = await (await resultsDirectory()).getFileHandle(resultFileName(jobId), { create: true });
+  const writable = await handle.createWritable();
+  return {
+    write: (chunk) => writable.write(chunk),
+    close: async () => {
+      await writable.close();
+      return handle.getFile();
+    }
+  };
+};
+
+export const opfsOutputStore: OutputStore = async (jobId) => {
+  if (!hasOpfs()) return memoryOutputStore(jobId);
+  try {
+    return await opfsWriter(jobId);
+  } catch (err) {
+    // Private browsing and full disks refuse OPFS writes
+    console.warn("OPFS unavailable, keeping the result in memory:", err);
+    return memoryOutputStore(jobId);
+  }
+};
+
+const hasLocks = () =>
+  typeof navigator !== 'undefined' && typeof navigator.locks?.request === 'function';
+
+const lockName = (fileName: string) => `${RESULTS_DIRECTORY}/${fileName}`;
+
+// Resolving a file's entry ends the lock callback, which frees the lock
+const heldLocks = new Map<string, () => void>();
+
+/** Marks the OPFS file behind a result as in use by this tab until releaseResultFile. */
+export const holdResultFile = (blob: Blob) => {
+  if (!hasLocks() || !(blob instanceof File) || heldLocks.has(blob.name)) return;
+  const released = new Promise<void>(resolve => heldLocks.set(blob.name, resolve));
+  navigator.locks.request(lockName(blob.name), { mode: 'shared' }, () => released)
+    .catch(err => console.warn("Could not lock result file:", err));
+};
+
+/** Deletes the OPFS file behind a result once nothing shows or saves it anymore. */
+export const releaseResultFile = async (blob: Blob) => {
+  if (!hasOpfs() || !(blob instanceof File)) return;
+  heldLocks.get(blob.name)?.();
+  heldLocks.delete(blob.name);
+  try {
+    await (await resultsDirectory()).removeEntry(blob.name);
+  } catch (e) {
+    // Not one of ours, or already gone
+  }
+};
+
+/**
+ * Removes results left behind by tabs that were closed without releasing
+ * them. Without Web Locks there is no telling, so nothing is removed.
+ */
+export const pruneResultFiles = async () => {
+  if (!hasOpfs() || !hasLocks()) return;
+  const directory = await resultsDirectory();
+  const now = Date.now();
+  for await (const handle of directory.values()) {
+    if (handle.kind !== 'file') continue;
+    const file = await (handle as FileSystemFileHandle).getFile();
+    if (now - file.lastModified < UNCLAIMED_RESULT_MS) continue;
+    // Only granted when no tab holds a shared lock on the file
+    await navigator.locks.request(lockName(handle.name), { mode: 'exclusive', ifAvailable: true }, async (lock) => {
+      if (lock) await directory.removeEntry(handle.name).catch(() => {});
+    });
+  }
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { WaveformData } from './waveform';
+import { BeatAnalysis } from './beatDetection';
+import { computeLoudnessBlocks, suggestSegments, SUGGESTION_COUNT } from './segmentSuggestion';
+
+const BUCKET_SEC = 0.1;
+const WINDOW_SEC = 15;
+// The chorus comes back once, both times 15s long
+const CHORUSES = [40, 85];
+
+const inChorus = (time: number) => CHORUSES.some(start => time >= start && time < start + WINDOW_SEC);
+
+/**
+ * Two minutes of quiet verses with a loud chorus that repeats. Both parts
+ * pulse every two seconds, but with a different contour, so only the
+ * choruses correlate with each other.
+ */
+const song = (): WaveformData => {
+  const buckets = Math.round(120 / BUCKET_SEC);
+  const rms = new Float32Array(buckets);
+  for (let i = 0; i < buckets; i++) {
+    const time = i * BUCKET_SEC;
+    const phase = time % 2;
+    rms[i] = inChorus(time)
+      ? (phase < 0.5 ? 0.6 : phase < 1.5 ? 0.4 : 0.2)
+      : (phase < 1 ? 0.05 : 0.03);
+  }
+  return { peaks: rms.map(v => Math.min(1, v * 1.4)), rms, bucketDuration: BUCKET_SEC, duration: 120 };
+};
+
+// 4/4 at 120 BPM with the first downbeat off the block grid
+const beatsOf = (firstDownbeat: number): BeatAnalysis => {
+  const beats = Array.from({ length: 240 }, (_, i) => firstDownbeat + i * 0.5).filter(t => t < 120);
+  return { bpm: 120, beats, downbeats: beats.filter((_, i) => i % 4 === 0), onsets: beats };
+};
+
+describe('computeLoudnessBlocks', () => {
+  it('averages the buckets of each half second in dBFS', () => {
+    const rms = new Float32Array([0.5, 0.5, 0.5, 0.5, 0.5, 0, 0, 0, 0, 0, 0.5]);
+    const blocks = computeLoudnessBlocks({ peaks: rms, rms, bucketDuration: BUCKET_SEC, duration: 1.1 });
+    expect(blocks).toHaveLength(3);
+    expect(blocks[0]).toBeCloseTo(-6.02, 2);
+    // Silence bottoms out at -60dB, a partial block averages what it has
+    expect(blocks[1]).toBe(-60);
+    expect(blocks[2]).toBeCloseTo(-6.02, 2);
+  });
+});
+
+describe('suggestSegments', () => {
+  it('starts the best suggestion on the first chorus and offers the repeat next', () => {
+    const suggestions = suggestSegments(song(), null, WINDOW_SEC);
+    expect(suggestions[0].startTime).toBe(CHORUSES[0]);
+    expect(suggestions[1].startTime).toBe(CHORUSES[1]);
+    expect(suggestions[0].score).toBeGreaterThan(suggestions[2].score);
+  });
+
+  it('keeps the suggestions at least half a window apart', () => {
+    const suggestions = suggestSegments(song(), null, WINDOW_SEC);
+    expect(suggestions).toHaveLength(SUGGESTION_COUNT);
+    suggestions.forEach((a, i) => suggestions.slice(i + 1).forEach(b => {
+      expect(Math.abs(a.startTime - b.startTime)).toBeGreaterThanOrEqual(WINDOW_SEC / 2);
+    }));
+  });
+
+  it('returns them best first, up to the requested count', () => {
+    const suggestions = suggestSegments(song(), null, WINDOW_SEC, 3);
+    expect(suggestions).toHaveLength(3);
+    expect(suggestions.map(s => s.score)).toEqual([...suggestions.map(s => s.score)].sort((a, b) => b - a));
+  });
+
+  it('only starts on downbeats when there are any', () => {
+    const beats = beatsOf(0.3);
+    const suggestions = suggestSegments(song(), beats, WINDOW_SEC);
+    suggestions.forEach(s => expect(beats.downbeats).toContain(s.startTime));
+    // The first downbeat inside the chorus
+    expect(suggestions[0].startTime).toBeCloseTo(40.3, 6);
+  });
+
+  it('never starts on a downbeat too late for a whole window', () => {
+    const suggestions = suggestSegments(song(), beatsOf(0.3), WINDOW_SEC, 40);
+    suggestions.forEach(s => expect(s.startTime).toBeLessThanOrEqual(120 - WINDOW_SEC));
+  });
+
+  it('falls back to the block grid without downbeats', () => {
+    const beats = { ...beatsOf(0.3), downbeats: [] };
+    expect(suggestSegments(song(), beats, WINDOW_SEC)[0].startTime).toBe(CHORUSES[0]);
+  });
+
+  it('starts at the beginning of a track no longer than the window', () => {
+    const waveform = { ...song(), duration: WINDOW_SEC };
+    expect(suggestSegments(waveform, null, WINDOW_SEC)).toEqual([{ startTime: 0, score: 0, reason: 'energy' }]);
+  });
+});
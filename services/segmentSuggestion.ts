@@ -0,0 +1,170 @@
+import { WaveformData, getTrackWaveform } from './waveform';
+import { BeatAnalysis, getTrackBeats } from './beatDetection';
+
+// Features are computed on half-second blocks, coarse enough to be fast on
+// full songs and fine enough to place a window on a downbeat.
+const BLOCK_SEC = 0.5;
+const BUILD_UP_LOOKBACK_SEC = 4;
+const SILENCE_DB = -60;
+
+// Best suggestion plus three alternatives
+export const SUGGESTION_COUNT = 4;
+
+export type SegmentReason = 'energy' | 'buildup' | 'repetition';
+
+export interface SegmentSuggestion {
+  startTime: number;
+  score: number;
+  reason: SegmentReason; // feature that contributed the most to the score
+}
+
+const toDb = (value: number) => (value > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(value)) : SILENCE_DB);
+
+/** Loudness (dBFS of the RMS) per BLOCK_SEC block. */
+export const computeLoudnessBlocks = (waveform: WaveformData): Float32Array => {
+  const bucketsPerBlock = Math.max(1, Math.round(BLOCK_SEC / waveform.bucketDuration));
+  const blockCount = Math.ceil(waveform.rms.length / bucketsPerBlock);
+  const blocks = new Float32Array(blockCount);
+  for (let b = 0; b < blockCount; b++) {
+    const from = b * bucketsPerBlock;
+    const to = Math.min(waveform.rms.length, from + bucketsPerBlock);
+    let sumSquares = 0;
+    for (let i = from; i < to; i++) sumSquares += waveform.rms[i] * waveform.rms[i];
+    blocks[b] = toDb(Math.sqrt(sumSquares / Math.max(1, to - from)));
+  }
+  return blocks;
+};
+
+const mean = (values: Float32Array, from: number, to: number) => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += values[i];
+  return to > from ? sum / (to - from) : SILENCE_DB;
+};
+
+// Pearson correlation of two equally long slices of the loudness contour
+const correlate = (values: Float32Array, a: number, b: number, length: number) => {
+  const meanA = mean(values, a, a + length);
+  const meanB = mean(values, b, b + length);
+  let num = 0;
+  let denA = 0;
+  let denB = 0;
+  for (let i = 0; i < length; i++) {
+    const da = values[a + i] - meanA;
+    const db = values[b + i] - meanB;
+    num += da * db;
+    denA += da * da;
+    denB += db * db;
+  }
+  return denA > 0 && denB > 0 ? num / Math.sqrt(denA * denB) : 0;
+};
+
+const normalize = (values: number[]): number[] => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return values.map(v => (max > min ? (v - min) / (max - min) : 0));
+};
+
+/**
+ * Scores every window of `windowLength` seconds and returns the best
+ * non-overlapping-ish candidates, highest score first.
+ *
+ * - energy: mean loudness inside the window
+ * - buildup: how much louder the window opening is than the seconds before it
+ *   (starting right on the drop / chorus entry)
+ * - repetition: how closely the window's loudness contour repeats elsewhere
+ *   in the song, which is typical for a chorus
+ *
+ * Candidate starts are the downbeats when available, otherwise every block.
+ */
+export const suggestSegments = (
+  waveform: WaveformData,
+  beats: BeatAnalysis | null,
+  windowLength: number,
+  count = SUGGESTION_COUNT
+): SegmentSuggestion[] => {
+  const maxStart = waveform.duration - windowLength;
+  if (maxStart <= 0) return [{ startTime: 0, score: 0, reason: 'energy' }];
+
+  const blocks = computeLoudnessBlocks(waveform);
+  const windowBlocks = Math.max(1, Math.floor(windowLength / BLOCK_SEC));
+  const lookbackBlocks = Math.round(BUILD_UP_LOOKBACK_SEC / BLOCK_SEC);
+  const openingBlocks = Math.max(1, Math.min(lookbackBlocks, Math.floor(windowBlocks / 4)));
+
+  const gridStarts = beats && beats.downbeats.length > 0
+    ? beats.downbeats.filter(t => t <= maxStart)
+    : [];
+  const starts = gridStarts.length > 0
+    ? gridStarts
+    : Array.from({ length: Math.floor(maxStart / BLOCK_SEC) + 1 }, (_, i) => i * BLOCK_SEC);
+
+  const energy: number[] = [];
+  const buildUp: number[] = [];
+  const repetition: number[] = [];
+  const repetitionStep = Math.max(1, Math.floor(windowBlocks / 8));
+
+  starts.forEach(start => {
+    const from = Math.min(blocks.length - windowBlocks, Math.round(start / BLOCK_SEC));
+    energy.push(mean(blocks, from, from + windowBlocks));
+
+    const before = mean(blocks, Math.max(0, from - lookbackBlocks), from);
+    const opening = mean(blocks, from, from + openingBlocks);
+    buildUp.push(from > 0 ? opening - before : 0);
+
+    let bestCorrelation = 0;
+    for (let other = 0; other + windowBlocks <= blocks.length; other += repetitionStep) {
+      if (Math.abs(other - from) < windowBlocks) continue;
+      bestCorrelation = Math.max(bestCorrelation, correlate(blocks, from, other, windowBlocks));
+    }
+    repetition.push(bestCorrelation);
+  });
+
+  const nEnergy = normalize(energy);
+  const nBuildUp = normalize(buildUp);
+  const nRepetition = normalize(repetition);
+  const weights: Record<SegmentReason, number> = { energy: 0.5, buildup: 0.3, repetition: 0.2 };
+
+  const scored: SegmentSuggestion[] = starts.map((startTime, i) => {
+    const parts: Record<SegmentReason, number> = {
+      energy: nEnergy[i] * weights.energy,
+      buildup: nBuildUp[i] * weights.buildup,
+      repetition: nRepetition[i] * weights.repetition
+    };
+    const reason = (Object.keys(parts) as SegmentReason[]).reduce((a, b) => (parts[b] > parts[a] ? b : a));
+    return { startTime, score: parts.energy + parts.buildup + parts.repetition, reason };
+  });
+
+  // Keep suggestions at least half a window apart so the chips are real alternatives
+  const minSeparation = windowLength / 2;
+  const picked: SegmentSuggestion[] = [];
+  [...scored]
+    .sort((a, b) => b.score - a.score || a.startTime - b.startTime)
+    .forEach(candidate => {
+      if (picked.length >= count) return;
+      if (picked.every(p => Math.abs(p.startTime - candidate.startTime) >= minSeparation)) {
+        picked.push(candidate);
+      }
+    });
+  return picked;
+};
+
+const segmentCache = new Map<string, Promise<SegmentSuggestion[]>>();
+
+export const getTrackSegments = (id: string, file: Blob, windowLength: number): Promise<SegmentSuggestion[]> => {
+  const key = `${id}:${windowLength}`;
+  const cached = segmentCache.get(key);
+  if (cached) return cached;
+
+  const pending = Promise.all([
+    getTrackWaveform(id, file),
+    getTrackBeats(id, file).catch(() => null)
+  ]).then(([waveform, beats]) => suggestSegments(waveform, beats, windowLength));
+  pending.catch(() => segmentCache.delete(key));
+  segmentCache.set(key, pending);
+  return pending;
+};
+
+export const releaseTrackSegments = (id: string) => {
+  Array.from(segmentCache.keys())
+    .filter(key => key.startsWith(`${id}:`))
+    .forEach(key => segmentCache.delete(key));
+};
@@ -0,0 +1,80 @@
+import { UploadedVideo } from '../types';
+
+// A trim start closer than this to a keyframe counts as on it
+const KEYFRAME_TOLERANCE_SEC = 0.001;
+
+/** Length of the part of the video that gets rendered. */
+export const trimmedDuration = (video: Pick<UploadedVideo, 'trimStart' | 'trimEnd'>) =>
+  Math.max(0, video.trimEnd - video.trimStart);
+
+/** Closest keyframe to `time`, or `time` itself when keyframes are unknown. */
+export const snapToKeyframe = (time: number, keyframes: number[] | null): number => {
+  if (!keyframes || keyframes.length === 0) return time;
+  return keyframes.reduce((best, k) => Math.abs(k - time) < Math.abs(best - time) ? k : best, keyframes[0]);
+};
+
+/**
+ * Whether a cut at `time` starts on a keyframe, so the video stream can be
+ * copied instead of re-encoded. The very start of the file always is.
+ */
+export const isOnKeyframe = (time: number, keyframes: number[] | null): boolean => {
+  if (time <= KEYFRAME_TOLERANCE_SEC) return true;
+  return !!keyframes && keyframes.some(k => Math.abs(k - time) <= KEYFRAME_TOLERANCE_SEC);
+};
+
+const seek = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const done = () => { cleanup(); resolve(); };
+    const fail = () => { cleanup(); reject(new Error("Failed to seek video")); };
+    const cleanup = () => {
+      video.removeEventListener('seeked', done);
+      video.removeEventListener('error', fail);
+    };
+    video.addEventListener('seeked', done);
+    video.addEventListener('error', fail);
+    video.currentTime = time;
+  });
+
+/**
+ * Frame thumbnails spread evenly over the video, as data URLs. Seeks a
+ * detached video element frame by frame; `onThumbnail` reports them as
+ * they arrive so the strip fills in progressively.
+ */
+export const extractThumbnails = async (
+  url: string,
+  duration: number,
+  count: number,
+  height: number,
+  onThumbnail?: (index: number, dataUrl: string) => void
+): Promise<string[]> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+  await new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
+    video.onerror = () => reject(new Error("Failed to load video"));
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.height = height;
+  canvas.width = Math.max(1, Math.round(height * (video.videoWidth / Math.max(1, video.videoHeight))));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D not supported");
+
+  const thumbnails: string[] = [];
+  try {
+    for (let i = 0; i < count; i++) {
+      // Middle of each slot, so the first and last frames aren't black fades
+      await seek(video, (duration * (i + 0.5)) / count);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const dataUrl = canvas.toDataURL('image/jpeg', 0.7);
+      thumbnails.push(dataUrl);
+      onThumbnail?.(i, dataUrl);
+    }
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+  return thumbnails;
+};
@@ -0,0 +1,105 @@
+import { analyzeDecodedAudio, getChannels } from './audioDecoder';
+
+// Resolution of the cached waveform. 10ms buckets are fine enough to see
+// individual transients when zoomed around the IN/OUT points.
+export const WAVEFORM_BUCKET_SEC = 0.01;
+
+export interface WaveformData {
+  peaks: Float32Array; // max absolute amplitude per bucket (0..1)
+  rms: Float32Array;   // root mean square per bucket (0..1)
+  bucketDuration: number;
+  duration: number;
+}
+
+export interface WaveformColumn {
+  peak: number;
+  rms: number;
+}
+
+/**
+ * Reduces raw PCM channels into peak/RMS buckets. Channels are mixed down by
+ * taking the loudest sample across channels.
+ */
+export const computeWaveform = (
+  channels: Float32Array[],
+  sampleRate: number,
+  bucketDuration = WAVEFORM_BUCKET_SEC
+): WaveformData => {
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const samplesPerBucket = Math.max(1, Math.round(sampleRate * bucketDuration));
+  const bucketCount = Math.ceil(length / samplesPerBucket);
+  const peaks = new Float32Array(bucketCount);
+  const rms = new Float32Array(bucketCount);
+
+  for (let b = 0; b < bucketCount; b++) {
+    const from = b * samplesPerBucket;
+    const to = Math.min(length, from + samplesPerBucket);
+    let peak = 0;
+    let sumSquares = 0;
+    for (let i = from; i < to; i++) {
+      let sample = 0;
+      for (let c = 0; c < channels.length; c++) {
+        const v = Math.abs(channels[c][i]);
+        if (v > sample) sample = v;
+      }
+      if (sample > peak) peak = sample;
+      sumSquares += sample * sample;
+    }
+    peaks[b] = Math.min(1, peak);
+    rms[b] = Math.min(1, Math.sqrt(sumSquares / Math.max(1, to - from)));
+  }
+
+  return {
+    peaks,
+    rms,
+    bucketDuration: samplesPerBucket / sampleRate,
+    duration: length / sampleRate
+  };
+};
+
+/**
+ * Resamples the [start, end) time range of a waveform into a fixed number of
+ * columns for drawing. Ranges outside the track come back as silence.
+ */
+export const sliceWaveform = (
+  data: WaveformData,
+  start: number,
+  end: number,
+  columns: number
+): WaveformColumn[] => {
+  const result: WaveformColumn[] = [];
+  const span = Math.max(0, end - start);
+  for (let col = 0; col < columns; col++) {
+    const t0 = start + (span * col) / columns;
+    const t1 = start + (span * (col + 1)) / columns;
+    const b0 = Math.max(0, Math.floor(t0 / data.bucketDuration));
+    const b1 = Math.min(data.peaks.length, Math.max(b0 + 1, Math.ceil(t1 / data.bucketDuration)));
+    let peak = 0;
+    let rms = 0;
+    for (let b = b0; b < b1; b++) {
+      if (data.peaks[b] > peak) peak = data.peaks[b];
+      if (data.rms[b] > rms) rms = data.rms[b];
+    }
+    result.push({ peak, rms });
+  }
+  return result;
+};
+
+const waveformCache = new Map<string, Promise<WaveformData>>();
+
+// Computed once per track and reused across renders
+export const getTrackWaveform = (id: string, file: Blob): Promise<WaveformData> => {
+  const cached = waveformCache.get(id);
+  if (cached) return cached;
+
+  const pending = analyzeDecodedAudio(id, file, buffer =>
+    computeWaveform(getChannels(buffer), buffer.sampleRate)
+  );
+  pending.catch(() => waveformCache.delete(id));
+  waveformCache.set(id, pending);
+  return pending;
+};
+
+export const releaseTrackWaveform = (id: string) => {
+  waveformCache.delete(id);
+};
@@ -0,0 +1,163 @@
+// Minimal ZIP writer and reader. Entries are stored without compression:
+// media is already compressed, and stored entries can be read back as
+// slices of the archive without loading them into memory.
+
+export interface ZipEntry {
+  name: string; // path inside the archive, '/' separated
+  blob: Blob;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+const MAX_UINT32 = 0xffffffff;
+const CRC_CHUNK = 4 * 1024 * 1024;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 of a blob, read in chunks so large videos never sit in memory whole. */
+export const crc32 = async (blob: Blob): Promise<number> => {
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < blob.size; offset += CRC_CHUNK) {
+    const bytes = new Uint8Array(await blob.slice(offset, offset + CRC_CHUNK).arrayBuffer());
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time fields of the entry headers
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/**
+ * Builds a ZIP archive from the entries. The archive references the entry
+ * blobs rather than copying them; only the CRCs require reading them once.
+ */
+export const createZip = async (entries: ZipEntry[], onEntry?: (index: number) => void): Promise<Blob> => {
+  if (entries.length >= 0xffff) throw new Error("Arquivos demais para um único pacote .zip");
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const central: ArrayBuffer[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    onEntry?.(i);
+    const { name, blob } = entries[i];
+    const nameBytes = encoder.encode(name);
+    const crc = await crc32(blob);
+    if (blob.size > MAX_UINT32 || offset > MAX_UINT32) {
+      throw new Error("O pacote .zip passaria de 4 GB");
+    }
+
+    const local = new DataView(new ArrayBuffer(30 + nameBytes.length));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_NAMES, true);
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, blob.size, true);
+    local.setUint32(22, blob.size, true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, 0, true);
+    new Uint8Array(local.buffer).set(nameBytes, 30);
+
+    const header = new DataView(new ArrayBuffer(46 + nameBytes.length));
+    header.setUint32(0, CENTRAL_HEADER, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, UTF8_NAMES, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, blob.size, true);
+    header.setUint32(24, blob.size, true);
+    header.setUint16(28, nameBytes.length, true);
+    header.setUint32(42, offset, true);
+    new Uint8Array(header.buffer).set(nameBytes, 46);
+    central.push(header.buffer);
+
+    parts.push(local.buffer, blob);
+    offset += local.byteLength + blob.size;
+  }
+
+  const centralSize = central.reduce((sum, h) => sum + h.byteLength, 0);
+  if (offset + centralSize > MAX_UINT32) throw new Error("O pacote .zip passaria de 4 GB");
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+/** Whether the blob starts like a ZIP archive. */
+export const isZip = async (blob: Blob): Promise<boolean> => {
+  if (blob.size < 4) return false;
+  const view = new DataView(await blob.slice(0, 4).arrayBuffer());
+  return view.getUint32(0, true) === LOCAL_HEADER;
+};
+
+/**
+ * Lists the entries of a ZIP archive as slices of it. Only stored entries
+ * are supported, which covers every archive this app writes.
+ */
+export const readZip = async (zip: Blob): Promise<ZipEntry[]> => {
+  // The end record sits in the last 22 bytes plus up to 64 KB of comment
+  const tailStart = Math.max(0, zip.size - 22 - 0xffff);
+  const tail = new DataView(await zip.slice(tailStart).arrayBuffer());
+  let endAt = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endAt = i;
+      break;
+    }
+  }
+  if (endAt < 0) throw new Error("Arquivo .zip inválido");
+
+  const count = tail.getUint16(endAt + 10, true);
+  const centralSize = tail.getUint32(endAt + 12, true);
+  const centralOffset = tail.getUint32(endAt + 16, true);
+  const central = new DataView(await zip.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const decoder = new TextDecoder();
+
+  const entries: ZipEntry[] = [];
+  let at = 0;
+  for (let i = 0; i < count; i++) {
+    if (at + 46 > central.byteLength || central.getUint32(at, true) !== CENTRAL_HEADER) {
+      throw new Error("Arquivo .zip inválido");
+    }
+    const method = central.getUint16(at + 10, true);
+    const size = central.getUint32(at + 20, true);
+    const nameLength = central.getUint16(at + 28, true);
+    const extraLength = central.getUint16(at + 30, true);
+    const commentLength = central.getUint16(at + 32, true);
+    const localOffset = central.getUint32(at + 42, true);
+    const name = decoder.decode(new Uint8Array(central.buffer, at + 46, nameLength));
+    at += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // directory
+    if (method !== 0) throw new Error(`"${name}" está compactado no .zip; exporte o pacote novamente pelo app`);
+
+    const local = new DataView(await zip.slice(localOffset, localOffset + 30).arrayBuffer());
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    entries.push({ name, blob: zip.slice(dataStart, dataStart + size) });
+  }
+  return entries;
+};
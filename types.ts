@@ -1,9 +1,73 @@
+// Crop window position at a point in time, see services/reframe.ts
+export interface ReframeKeyframe {
+  time: number; // seconds into the video
+  x: number;    // 0..1, fraction of the horizontal overflow (0 = left)
+  y: number;    // 0..1, fraction of the vertical overflow (0 = top)
+}
+
+export type VideoContainer = 'mp4' | 'mov' | 'webm' | 'matroska';
+
+// What the container header says about a source file, see services/mediaProbe.ts
+export interface VideoProbe {
+  container: VideoContainer;
+  videoCodec: string | null;   // 'h264', 'hevc', 'vp9'... or the raw codec tag; null = no video stream
+  audioCodecs: string[];       // one per audio stream, empty when the file is silent
+  width: number;               // coded frame size, before rotation and pixel aspect
+  height: number;
+  sampleAspectRatio: number;   // pixel width / pixel height, 1 = square pixels
+  rotation: number;            // display rotation in degrees clockwise: 0, 90, 180 or 270
+  frameRate: number | null;    // average frames per second, null when the header doesn't say
+  variableFrameRate: boolean;
+}
+
 export interface UploadedVideo {
+  id: string;
   file: File;
   url: string;
   duration: number;
-  width: number;
+  width: number;  // displayed frame size, after rotation and pixel aspect
   height: number;
+  reframe: ReframeKeyframe[]; // empty = centered crop
+  trimStart: number; // IN point, seconds into the file
+  trimEnd: number;   // OUT point
+  keyframes: number[] | null; // keyframe times, null when the container couldn't be read
+  probe: VideoProbe | null;   // null when the container couldn't be read
+}
+
+export interface AudioMixSettings {
+  originalGain: number;  // 0..1, level of the video's own sound (0 = removed)
+  musicGain: number;     // 0..1, level of the new track
+  ducking: boolean;      // lower the music while the original audio has speech
+  duckingAmount: number; // 0..1, how hard the music is pushed down
+}
+
+// How a track shorter than the video fills the remaining time
+export type AudioFillMode = 'loop' | 'stitch' | 'pad';
+
+export interface AudioRange {
+  start: number; // seconds into the music file
+  end: number;
+}
+
+export interface AudioFillSettings {
+  mode: AudioFillMode;
+  loopStart: number;     // loop: where each repeat restarts
+  crossfade: number;     // loop/stitch: seconds of overlap between consecutive pieces
+  segments: AudioRange[]; // stitch: ranges of the track played in order
+  padFade: number;       // pad: fade-out into the silence (0 = hard cut)
+}
+
+// One range of the music file, placed back to back on the output timeline
+export interface AudioPiece {
+  sourceStart: number;
+  duration: number;
+}
+
+// Music layout of an output, see services/audioArrangement.ts
+export interface AudioArrangement {
+  pieces: AudioPiece[];
+  crossfade: number; // overlap between consecutive pieces
+  padFade: number;   // fade before the silence when the pieces end early
 }
 
 export interface AudioTrack {
@@ -13,10 +77,40 @@ export interface AudioTrack {
   duration: number;
   startTime: number; // The point in the audio file where the video starts
   url: string;
+  snapToBeat: boolean; // Slider snaps startTime to detected downbeats
+  mix: AudioMixSettings;
+  fadeIn: number;  // seconds of music fade-in at the start of the cut
+  fadeOut: number; // seconds of music fade-out before the end of the cut
+  fill: AudioFillSettings; // only used while the track is shorter than the video
+}
+
+// Choices for one video × track combination of the project
+export interface RenderPair {
+  enabled: boolean;          // rendered when the batch runs
+  startTime: number | null;  // where the music starts under this video, null = the track's own start time
+}
+
+export type RenderJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// One output of the render queue, see services/renderQueue.ts
+export interface RenderQueueJob {
+  id: string; // same as the result it produces
+  videoId: string;
+  trackId: string;
+  profileId: string;
+  status: RenderJobStatus;
+  error: string | null;
+  logTail: string[]; // last FFmpeg log lines of a failed attempt
+  attempts: number;
+  notice: string | null; // how the output differs from its profile, e.g. downsized to fit in memory
 }
 
 export interface ProcessedResult {
   id: string;
+  videoId: string;
+  videoName: string;
+  trackId: string;
+  profileId: string; // OutputProfile that produced this file
   audioTrackName: string;
   videoUrl: string;
   audioUrl: string;
@@ -26,9 +120,85 @@ export interface ProcessedResult {
   createdAt: Date;
 }
 
+// How the source frame is fitted into the profile frame
+export type FitMode = 'crop' | 'letterbox' | 'blur';
+
+export interface OutputProfile {
+  id: string;
+  name: string;
+  aspectRatio: number;   // width / height of the exported frame
+  width: number | null;  // null: largest frame of this aspect that fits the source
+  height: number | null;
+  fitMode: FitMode;
+  videoPreset: string;   // libx264 preset
+  videoCrf: number;
+  audioBitrate: string;  // e.g. '192k'
+}
+
+// Everything FFmpeg needs to render one output file
+export interface RenderJobSpec {
+  id: string;
+  video: {
+    file: File;
+    width: number;             // displayed size, what the filters see after autorotation and SAR correction
+    height: number;
+    sampleAspectRatio: number; // of the decoded frames, 1 = square pixels
+    frameRate: number | null;  // constant rate for variable frame rate sources, null = keep the source timing
+    reframe: ReframeKeyframe[];
+    trimStart: number;         // seek into the source, the output lasts `duration`
+    startsOnKeyframe: boolean; // the trim can be stream copied
+    copyable: boolean;         // codec and container can go into the MP4 output untouched
+    hasAudio: boolean;         // the source has a sound track to mix with the music
+  };
+  audio: {
+    file: File;
+    name: string;
+  };
+  mix: AudioMixSettings;
+  fadeIn: number;
+  fadeOut: number;
+  loudnessTarget: number | null; // integrated LUFS, null = no normalization
+  arrangement: AudioArrangement; // which parts of the audio file make up the output
+  duration: number;    // length of the output in seconds
+  profile: OutputProfile;
+}
+
+// Output choices saved with a project
+export interface ProjectSettings {
+  outputProfileIds: string[];
+  previewProfileId: string;
+  minVideoDuration: number | null;
+  loudnessTarget: number | null;
+  filenameTemplate: string; // see services/outputNames.ts
+}
+
+// Everything needed to reopen a project, see services/projectStore.ts
+export interface ProjectSnapshot {
+  videos: UploadedVideo[];
+  activeVideoId: string | null;
+  tracks: AudioTrack[];
+  pairs: Record<string, RenderPair>;
+  results: ProcessedResult[];
+  queue: RenderQueueJob[];
+  settings: ProjectSettings;
+  step: AppStep;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  updatedAt: number;
+  videoCount: number;
+  trackCount: number;
+  resultCount: number;
+}
+
 export enum AppStep {
   LOGIN = 'LOGIN',
+  PROJECTS = 'PROJECTS',
   UPLOAD_VIDEO = 'UPLOAD_VIDEO',
+  TRIM_VIDEO = 'TRIM_VIDEO',
   CONFIGURE_AUDIO = 'CONFIGURE_AUDIO',
   PROCESSING = 'PROCESSING',
   RESULTS = 'RESULTS'
@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_AUTH_URL?: string;      // login backend, required by production builds (services/auth.ts)
+  readonly VITE_DEV_PASSWORD?: string;  // password of the local development login
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,12 +1,66 @@
-import { defineConfig } from 'vite';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { createHash } from 'node:crypto';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// SharedArrayBuffer (multithreaded FFmpeg core) is only available to
+// cross-origin isolated pages
+const crossOriginIsolationHeaders = {
+  "Cross-Origin-Opener-Policy": "same-origin",
+  "Cross-Origin-Embedder-Policy": "require-corp"
+};
+
+// Emits dist/sw.js from service-worker.js with the list of every built file,
+// so the first visit caches everything the app needs to run offline
+const precacheServiceWorker = (): Plugin => ({
+  name: 'precache-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const files = ['/', ...Object.keys(bundle).map(fileName => `/${fileName}`)];
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const template = readFileSync(new URL('./service-worker.js', import.meta.url), 'utf8');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: template.replace('self.__PRECACHE_MANIFEST', JSON.stringify({ version, files }))
+    });
+  }
+});
+
+// Production bundles log in against VITE_AUTH_URL and have no fallback, so
+// building without it fails instead of shipping a login that can't work
+const requireAuthUrl = (): Plugin => ({
+  name: 'require-auth-url',
+  apply: 'build',
+  configResolved(config) {
+    if (config.isProduction && !config.env.VITE_AUTH_URL) {
+      throw new Error("VITE_AUTH_URL must be set for production builds, see Authentication in README.md");
+    }
+  }
+});
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), requireAuthUrl(), precacheServiceWorker()],
+  resolve: {
+    alias: [
+      // Vite 4 can't resolve `?url` on a package's main export, so the
+      // FFmpeg core script gets a specifier of its own
+      {
+        find: /^@ffmpeg\/core-mt\/core(?=\?|$)/,
+        replacement: fileURLToPath(new URL('./node_modules/@ffmpeg/core-mt/dist/esm/ffmpeg-core.js', import.meta.url))
+      }
+    ]
+  },
   server: {
-    headers: {
-      "Cross-Origin-Opener-Policy": "same-origin",
-      "Cross-Origin-Embedder-Policy": "require-corp"
-    }
+    headers: crossOriginIsolationHeaders
+  },
+  preview: {
+    headers: crossOriginIsolationHeaders
+  },
+  build: {
+    // Never inline assets as data: URLs, ffmpeg-core.worker.js must be a
+    // same-origin file to be started as a Worker
+    assetsInlineLimit: 0
   }
-});
\ No newline at end of file
+});